@@ -0,0 +1,145 @@
+// Local server-sent events server for exercising the dashboard's push channel.
+//
+//   npm run mock:stream -- --port 5055 --traders trader-1,trader-2
+//
+// Then add a connection profile whose stream URL is http://localhost:5055/stream.
+import http from 'node:http';
+
+const args = Object.fromEntries(
+  process.argv.slice(2).reduce((pairs, arg, index, all) => {
+    if (arg.startsWith('--')) pairs.push([arg.slice(2), all[index + 1]]);
+    return pairs;
+  }, [])
+);
+
+const port = Number(args.port ?? 5055);
+const traderIds = (args.traders ?? 'trader-1').split(',').filter(Boolean);
+const intervalMs = Number(args.interval ?? 2000);
+const symbols = ['BTCUSDT', 'ETHUSDT', 'ADAUSDT', 'DOTUSDT', 'LINKUSDT'];
+
+const prices = { BTCUSDT: 65000, ETHUSDT: 3200, ADAUSDT: 0.45, DOTUSDT: 6.5, LINKUSDT: 14 };
+const openTrades = new Map(traderIds.map(id => [id, []]));
+const clients = new Set();
+
+const pick = list => list[Math.floor(Math.random() * list.length)];
+
+function send(event, data) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  clients.forEach(res => res.write(message));
+}
+
+function tickPrices() {
+  for (const symbol of symbols) {
+    prices[symbol] *= 1 + (Math.random() - 0.5) * 0.004;
+  }
+}
+
+function indicatorsFor(symbol) {
+  const price = prices[symbol];
+  const rsi = 20 + Math.random() * 60;
+  return {
+    symbol,
+    price,
+    rsi,
+    bollinger_upper: price * 1.02,
+    bollinger_middle: price,
+    bollinger_lower: price * 0.98,
+    ma_short: price * (1 + (Math.random() - 0.5) * 0.01),
+    ma_long: price * (1 + (Math.random() - 0.5) * 0.01),
+    volume: 1_000_000 + Math.random() * 2_000_000,
+    volume_avg: 1_500_000,
+    signal: rsi < 30 ? 'BUY' : rsi > 70 ? 'SELL' : 'HOLD',
+    signal_strength: Math.random() * 10,
+    last_updated: new Date().toISOString(),
+  };
+}
+
+function roeFor(trade) {
+  const move = (prices[trade.symbol] - trade.entry_price) / trade.entry_price;
+  return (trade.side === 'LONG' ? move : -move) * trade.leverage;
+}
+
+function tick() {
+  tickPrices();
+
+  for (const traderId of traderIds) {
+    const trades = openTrades.get(traderId);
+
+    if (trades.length < 3 && Math.random() < 0.3) {
+      const symbol = pick(symbols);
+      const side = pick(['LONG', 'SHORT']);
+      const entry = prices[symbol];
+      const trade = {
+        trade_id: `${traderId}-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        symbol,
+        side,
+        entry_price: entry,
+        quantity: 1000 / entry,
+        leverage: 10,
+        risk_pct: 0.02,
+        reward_pct: 0.04,
+        stop_loss: side === 'LONG' ? entry * 0.98 : entry * 1.02,
+        take_profit: side === 'LONG' ? entry * 1.04 : entry * 0.96,
+        current_roe: 0,
+        drawdown: 0,
+        max_roe: 0,
+        trade_status: 'OPEN',
+        notes: 'mock stream',
+      };
+      trades.push(trade);
+      send('trade_opened', { trader_id: traderId, trade });
+    }
+
+    for (const trade of [...trades]) {
+      trade.current_roe = roeFor(trade);
+      trade.max_roe = Math.max(trade.max_roe, trade.current_roe);
+      trade.drawdown = Math.min(trade.drawdown, trade.current_roe);
+
+      if (Math.random() < 0.1) {
+        trades.splice(trades.indexOf(trade), 1);
+        const closed = {
+          ...trade,
+          trade_status: trade.current_roe >= 0 ? 'CLOSED_WIN' : 'CLOSED_LOSS',
+          exit_price: prices[trade.symbol],
+          exit_timestamp: new Date().toISOString(),
+          actual_return_pct: trade.current_roe * 100,
+        };
+        send('trade_closed', { trader_id: traderId, trade: closed });
+      } else {
+        send('trade_updated', { trader_id: traderId, trade });
+      }
+    }
+
+    send('trader_status', { trader_id: traderId, status: { is_running: true, open_trades: trades.length } });
+    for (const symbol of symbols) {
+      send('indicators', { trader_id: traderId, symbol, indicators: indicatorsFor(symbol) });
+    }
+  }
+}
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${port}`);
+  if (pathname !== '/stream') {
+    res.writeHead(404, { 'Access-Control-Allow-Origin': '*' }).end();
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.write(': connected\n\n');
+  clients.add(res);
+  req.on('close', () => clients.delete(res));
+});
+
+setInterval(tick, intervalMs);
+// Comment lines keep idle proxies from dropping the connection
+setInterval(() => clients.forEach(res => res.write(': ping\n\n')), 15000);
+
+server.listen(port, () => {
+  console.log(`Mock trading stream on http://localhost:${port}/stream for ${traderIds.join(', ')}`);
+});
@@ -4,23 +4,52 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
+import { RequireAuth } from "./components/RequireAuth";
+import { AuthProvider } from "./hooks/use-auth";
+import { ConnectionProvider, useConnection } from "./hooks/use-connection";
+import { TradingStreamProvider } from "./hooks/use-trading-stream";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // TradingAPI already retries idempotent requests with backoff
+      retry: false,
+      refetchIntervalInBackground: false,
+    },
+  },
+});
+
+// Remount every page when the backend changes so no component state leaks across profiles
+const AppRoutes = () => {
+  const { activeProfile } = useConnection();
+
+  return (
+    <Routes key={`${activeProfile.id}:${activeProfile.baseUrl}`}>
+      <Route path="/login" element={<Login />} />
+      <Route path="/" element={<RequireAuth><Index /></RequireAuth>} />
+      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+      <Route path="*" element={<NotFound />} />
+    </Routes>
+  );
+};
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <ConnectionProvider>
+      <AuthProvider>
+        <TradingStreamProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <AppRoutes />
+            </BrowserRouter>
+          </TooltipProvider>
+        </TradingStreamProvider>
+      </AuthProvider>
+    </ConnectionProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Archive, Trash2 } from 'lucide-react';
+import { type TradeEntry } from '@/services/api';
+import { useArchiveTrader, useDeleteTrader, useRestoreTrader } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+
+// Long enough to notice a mistake and reach for the button
+const UNDO_WINDOW_MS = 10000;
+
+function ConfirmNameField({ traderName, value, onChange }: { traderName: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div>
+      <Label htmlFor="confirm-trader-name">
+        Type <span className="font-mono font-semibold">{traderName}</span> to confirm
+      </Label>
+      <Input
+        id="confirm-trader-name"
+        className="mt-1 font-mono"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        autoComplete="off"
+      />
+    </div>
+  );
+}
+
+interface ArchiveTraderDialogProps {
+  traderId: string;
+  traderName: string;
+  isRunning: boolean;
+  openTrades: TradeEntry[];
+}
+
+export function ArchiveTraderDialog({ traderId, traderName, isRunning, openTrades }: ArchiveTraderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const archiveTrader = useArchiveTrader();
+  const restoreTrader = useRestoreTrader();
+  const { toast } = useToast();
+
+  // Archiving a trader that is still trading would leave its positions unmanaged
+  const blocked = isRunning || openTrades.length > 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (archiveTrader.isPending) return;
+    if (next) setConfirmation('');
+    setOpen(next);
+  };
+
+  const handleUndo = async () => {
+    try {
+      await restoreTrader.mutateAsync(traderId);
+      toast({
+        title: "Trader Restored",
+        description: `${traderName} is back in the trader list.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to restore trader",
+        description: getErrorMessage(error, "It is still in the archive; try restoring it from there."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleArchive = async () => {
+    try {
+      await archiveTrader.mutateAsync(traderId);
+      setOpen(false);
+      toast({
+        title: "Trader Archived",
+        description: `${traderName} was moved to the archive. Its trades and performance are kept.`,
+        duration: UNDO_WINDOW_MS,
+        action: <ToastAction altText="Undo archiving" onClick={handleUndo}>Undo</ToastAction>,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to archive trader",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Archive trader">
+          <Archive className="w-4 h-4" />
+        </Button>
+      </AlertDialogTrigger>
+
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Archive {traderName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Archived traders leave the trader list and cannot trade. Their trades and performance stay
+            browsable under Archived, and they can be restored at any time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {blocked ? (
+          <div className="space-y-2 text-sm">
+            <p className="text-loss font-medium">
+              {isRunning && openTrades.length > 0
+                ? 'Stop this trader and close its open positions before archiving it.'
+                : isRunning
+                  ? 'Stop this trader before archiving it.'
+                  : 'Close this trader\'s open positions before archiving it.'}
+            </p>
+            {openTrades.length > 0 && (
+              <ul className="border rounded-md divide-y">
+                {openTrades.map(trade => (
+                  <li key={trade.trade_id} className="flex justify-between px-3 py-2">
+                    <span className="font-medium">{trade.symbol} {trade.side}</span>
+                    <span className="text-muted-foreground">
+                      {trade.quantity.toFixed(4)} @ {trade.entry_price.toFixed(2)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <ConfirmNameField traderName={traderName} value={confirmation} onChange={setConfirmation} />
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={archiveTrader.isPending}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleArchive}
+            disabled={blocked || confirmation.trim() !== traderName.trim() || archiveTrader.isPending}
+          >
+            {archiveTrader.isPending ? 'Archiving...' : 'Archive Trader'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface DeleteArchivedTraderDialogProps {
+  traderId: string;
+  traderName: string;
+  onDeleted: () => void;
+}
+
+// Only archived traders can be deleted for good, and only after a second typed confirmation
+export function DeleteArchivedTraderDialog({ traderId, traderName, onDeleted }: DeleteArchivedTraderDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const deleteTrader = useDeleteTrader();
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    if (deleteTrader.isPending) return;
+    if (next) setConfirmation('');
+    setOpen(next);
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteTrader.mutateAsync(traderId);
+      setOpen(false);
+      toast({
+        title: "Trader Deleted",
+        description: `${traderName} and its trade history have been permanently deleted.`,
+      });
+      onDeleted();
+    } catch (error) {
+      toast({
+        title: "Failed to delete trader",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete Permanently
+        </Button>
+      </AlertDialogTrigger>
+
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Permanently delete {traderName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This removes the trader with all of its trades, performance and configuration history. It cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ConfirmNameField traderName={traderName} value={confirmation} onChange={setConfirmation} />
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteTrader.isPending}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={confirmation.trim() !== traderName.trim() || deleteTrader.isPending}
+          >
+            {deleteTrader.isPending ? 'Deleting...' : 'Delete Forever'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Archive, ChevronDown, ChevronRight } from 'lucide-react';
+import { type TraderSummary } from '@/services/api';
+
+interface ArchivedTradersProps {
+  traders: TraderSummary[];
+  selectedId: string | null;
+  onSelect: (traderId: string) => void;
+}
+
+export function ArchivedTraders({ traders, selectedId, onSelect }: ArchivedTradersProps) {
+  const [open, setOpen] = useState(false);
+
+  if (traders.length === 0) return null;
+
+  return (
+    <Card>
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="py-4">
+          <CollapsibleTrigger className="flex items-center gap-2 w-full text-left">
+            {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            <Archive className="w-4 h-4 text-muted-foreground" />
+            <CardTitle className="text-base">Archived ({traders.length})</CardTitle>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-2 pt-0">
+            {traders.map(trader => (
+              <Button
+                key={trader.id}
+                variant={selectedId === trader.id ? "default" : "ghost"}
+                className="w-full justify-start h-auto py-2"
+                onClick={() => onSelect(trader.id)}
+              >
+                <div className="text-left">
+                  <div className="font-medium">{trader.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    ${trader.balance.toFixed(2)} · {trader.total_trades} trades
+                    {trader.archived_at && ` · archived ${new Date(trader.archived_at).toLocaleDateString()}`}
+                  </div>
+                </div>
+              </Button>
+            ))}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
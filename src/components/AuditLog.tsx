@@ -0,0 +1,73 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuditLog } from '@/hooks/use-trading-queries';
+import { ContractMismatchPanel } from './ContractMismatchPanel';
+
+interface AuditLogProps {
+  traderId: string;
+}
+
+// Backends may add actions this dashboard doesn't know yet; those show their raw name
+const ACTION_LABELS: Record<string, string> = {
+  open_trade: 'Manual entry',
+  close_trade: 'Closed position',
+  partial_close: 'Partial close',
+  update_levels: 'Stop / target',
+  archive: 'Archived',
+  restore: 'Restored',
+};
+
+export function AuditLog({ traderId }: AuditLogProps) {
+  const { data: entries = [], error, isLoading } = useAuditLog(traderId);
+
+  if (error) {
+    return <ContractMismatchPanel errors={[error]} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Manual entries, position changes and archiving on this trader, and who made them</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading audit log...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No manual changes recorded</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-muted-foreground" title={new Date(entry.timestamp).toLocaleString()}>
+                    {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>{entry.actor}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                  </TableCell>
+                  <TableCell>{entry.details}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
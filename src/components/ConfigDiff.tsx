@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { type SettingChange } from '@/lib/trader-config';
+
+interface ConfigDiffTableProps {
+  changes: SettingChange[];
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+export function ConfigDiffTable({ changes, beforeLabel = 'Current', afterLabel = 'New' }: ConfigDiffTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Setting</TableHead>
+          <TableHead>{beforeLabel}</TableHead>
+          <TableHead>{afterLabel}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {/* Overrides, strategy parameters and rules give one row per entry under the same key */}
+        {changes.map(change => (
+          <TableRow key={`${change.key}:${change.label}`}>
+            <TableCell className="font-medium">
+              {change.label}
+              {change.increasesRisk && (
+                <Badge variant="destructive" className="ml-2">Higher risk</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-muted-foreground">{change.before}</TableCell>
+            <TableCell className={change.increasesRisk ? 'text-loss font-semibold' : ''}>
+              {change.after}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface ConfirmConfigChangeDialogProps {
+  changes: SettingChange[] | null;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  pending: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Open while `changes` is set; risk-increasing changes need an explicit acknowledgement
+export function ConfirmConfigChangeDialog({
+  changes,
+  title,
+  description,
+  confirmLabel,
+  pending,
+  onConfirm,
+  onCancel,
+}: ConfirmConfigChangeDialogProps) {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const risky = changes?.some(change => change.increasesRisk) ?? false;
+
+  useEffect(() => {
+    setAcknowledged(false);
+  }, [changes]);
+
+  return (
+    <Dialog open={changes !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {changes?.length ? (
+          <ConfigDiffTable changes={changes} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No settings differ from the current configuration.</p>
+        )}
+
+        {risky && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This change increases risk</AlertTitle>
+            <AlertDescription>
+              <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                <Checkbox
+                  checked={acknowledged}
+                  onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                />
+                I understand the trader can lose more money with these settings
+              </label>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={risky ? "destructive" : "default"}
+            onClick={onConfirm}
+            disabled={pending || (risky && !acknowledged)}
+          >
+            {pending ? 'Applying...' : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
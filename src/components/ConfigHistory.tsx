@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, RotateCcw } from 'lucide-react';
+import { type ConfigRevision } from '@/services/api';
+import { useConfigRevisions, useRollbackConfig, useStrategies } from '@/hooks/use-trading-queries';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { diffTraderSettings, type SettingChange } from '@/lib/trader-config';
+import { CLASSIC_STRATEGY } from '@/lib/strategies';
+import { isSwitchToLive } from '@/lib/trading-mode';
+import { ConfigDiffTable, ConfirmConfigChangeDialog } from './ConfigDiff';
+import { ContractMismatchPanel } from './ContractMismatchPanel';
+import { LiveModeConfirmDialog } from './TradingMode';
+
+interface ConfigHistoryProps {
+  traderId: string;
+  traderName: string;
+  // Hides rollback, e.g. for archived traders
+  readOnly?: boolean;
+}
+
+export function ConfigHistory({ traderId, traderName, readOnly = false }: ConfigHistoryProps) {
+  const { data: revisions = [], error, isLoading } = useConfigRevisions(traderId);
+  const { data: strategies = [CLASSIC_STRATEGY] } = useStrategies();
+  const rollbackConfig = useRollbackConfig();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>('');
+  const [rollbackTarget, setRollbackTarget] = useState<{ revision: ConfigRevision; changes: SettingChange[] } | null>(null);
+  const [confirmingLive, setConfirmingLive] = useState(false);
+
+  const newestFirst = [...revisions].sort((a, b) => b.revision - a.revision);
+  const current = newestFirst[0];
+  const currentRevision = current?.revision;
+  const previousRevision = newestFirst[1]?.revision ?? currentRevision;
+
+  // Default to comparing the running config with the one before it, and follow new revisions
+  useEffect(() => {
+    if (currentRevision === undefined) return;
+    setCompareTo(String(currentRevision));
+    setCompareFrom(String(previousRevision));
+  }, [currentRevision, previousRevision]);
+
+  const findRevision = (value: string) => revisions.find(r => String(r.revision) === value);
+  const fromRevision = findRevision(compareFrom);
+  const toRevision = findRevision(compareTo);
+  const comparison = fromRevision && toRevision ? diffTraderSettings(fromRevision.config, toRevision.config, strategies) : [];
+
+  const handleRollbackClick = (revision: ConfigRevision) => {
+    setRollbackTarget({ revision, changes: diffTraderSettings(current.config, revision.config, strategies) });
+  };
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+    // Rolling back to a live revision needs the same typed confirmation as switching to live in the editor
+    if (isSwitchToLive(current.config, rollbackTarget.revision.config) && !confirmingLive) {
+      setConfirmingLive(true);
+      return;
+    }
+    const { revision } = rollbackTarget.revision;
+    try {
+      await rollbackConfig.mutateAsync({ traderId, revision });
+      toast({
+        title: "Configuration Rolled Back",
+        description: `Revision ${revision} is running again as a new revision.`,
+      });
+      setRollbackTarget(null);
+      setConfirmingLive(false);
+    } catch (error) {
+      toast({
+        title: "Rollback Failed",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return <ContractMismatchPanel errors={[error]} />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Configuration History
+        </CardTitle>
+        <CardDescription>Every saved revision of this trader's settings</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading history...</div>
+        ) : newestFirst.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No revisions recorded yet</div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Revision</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {newestFirst.map(revision => (
+                  <TableRow key={revision.revision}>
+                    <TableCell className="font-medium">
+                      r{revision.revision}
+                      {revision === current && <Badge className="ml-2">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{new Date(revision.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{revision.author}</TableCell>
+                    <TableCell className="text-muted-foreground">{revision.note ?? '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {can('trader:configure') && !readOnly && revision !== current && (
+                        <Button variant="outline" size="sm" onClick={() => handleRollbackClick(revision)}>
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {newestFirst.length > 1 && (
+              <div className="space-y-4">
+                <div className="flex items-end gap-4">
+                  <div className="space-y-1">
+                    <Label className="text-sm">Compare</Label>
+                    <Select value={compareFrom} onValueChange={setCompareFrom}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {newestFirst.map(r => (
+                          <SelectItem key={r.revision} value={String(r.revision)}>r{r.revision}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">With</Label>
+                    <Select value={compareTo} onValueChange={setCompareTo}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {newestFirst.map(r => (
+                          <SelectItem key={r.revision} value={String(r.revision)}>r{r.revision}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {comparison.length > 0 ? (
+                  <ConfigDiffTable
+                    changes={comparison}
+                    beforeLabel={`r${compareFrom}`}
+                    afterLabel={`r${compareTo}`}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">These revisions have identical settings.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmConfigChangeDialog
+        changes={confirmingLive ? null : rollbackTarget?.changes ?? null}
+        title={`Roll Back to Revision ${rollbackTarget?.revision.revision ?? ''}`}
+        description="The trader switches back to these settings immediately. This is recorded as a new revision."
+        confirmLabel="Roll Back"
+        pending={rollbackConfig.isPending}
+        onConfirm={handleRollback}
+        onCancel={() => setRollbackTarget(null)}
+      />
+
+      <LiveModeConfirmDialog
+        open={confirmingLive}
+        traderName={traderName}
+        action="switch"
+        pending={rollbackConfig.isPending}
+        onConfirm={handleRollback}
+        onCancel={() => setConfirmingLive(false)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Radio, RefreshCw, RotateCcw, Server, Settings2, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useConnection } from '@/hooks/use-connection';
+import { useTradingStream } from '@/hooks/use-trading-stream';
+import { createProfileId, DEFAULT_PROFILE, isBuiltInProfile, normalizeBaseUrl } from '@/services/connection';
+import { getMockBackend } from '@/services/mock';
+import { useToast } from '@/hooks/use-toast';
+
+export function ConnectionProfiles() {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, removeProfile } = useConnection();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [streamUrl, setStreamUrl] = useState('');
+  const { isLive } = useTradingStream();
+  const { session } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const handleResetMock = () => {
+    if (!confirm('Reset the mock backend? All simulated traders and trades will be removed.')) return;
+    getMockBackend().reset();
+    queryClient.invalidateQueries();
+    toast({
+      title: "Mock Backend Reset",
+      description: "All simulated traders and trades have been removed.",
+    });
+  };
+
+  const handleAddProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Profile name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const url = new URL(normalizeBaseUrl(baseUrl));
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    } catch {
+      toast({
+        title: "Validation Error",
+        description: "Backend URL must be a valid http(s) address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveProfile({
+      id: createProfileId(),
+      name: name.trim(),
+      baseUrl: normalizeBaseUrl(baseUrl),
+      streamUrl: streamUrl.trim() || undefined,
+    });
+    setName('');
+    setBaseUrl('');
+    setStreamUrl('');
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {session && (
+        <Badge
+          variant={isLive ? "default" : "secondary"}
+          className="gap-1"
+          title={isLive ? "Receiving live updates" : "Stream unavailable, polling for updates"}
+        >
+          {isLive ? <Radio className="w-3 h-3" /> : <RefreshCw className="w-3 h-3" />}
+          {isLive ? "Live" : "Polling"}
+        </Badge>
+      )}
+
+      <Select value={activeProfile.id} onValueChange={setActiveProfile}>
+        <SelectTrigger className="w-48">
+          <Server className="w-4 h-4 mr-2 text-muted-foreground" />
+          <SelectValue placeholder="Select backend" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="icon" title="Manage connection profiles">
+            <Settings2 className="w-4 h-4" />
+          </Button>
+        </DialogTrigger>
+
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Connection Profiles</DialogTitle>
+            <DialogDescription>
+              Choose which trading backend the dashboard talks to
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {profiles.map((profile) => (
+              <div key={profile.id} className="flex items-center gap-2 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium flex items-center gap-2">
+                    {profile.name}
+                    {profile.id === activeProfile.id && <Badge className="text-xs">Active</Badge>}
+                    {profile.id === DEFAULT_PROFILE.id && (
+                      <Badge variant="secondary" className="text-xs">Build default</Badge>
+                    )}
+                    {profile.kind === 'mock' && (
+                      <Badge variant="secondary" className="text-xs">Simulated</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{profile.baseUrl}</div>
+                </div>
+                {profile.id !== activeProfile.id && (
+                  <Button variant="outline" size="sm" onClick={() => setActiveProfile(profile.id)}>
+                    Use
+                  </Button>
+                )}
+                {profile.kind === 'mock' && (
+                  <Button variant="outline" size="icon" onClick={handleResetMock} title="Reset simulated data">
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                )}
+                {!isBuiltInProfile(profile.id) && (
+                  <Button variant="outline" size="icon" onClick={() => removeProfile(profile.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleAddProfile} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="profileName">Profile Name</Label>
+                <Input
+                  id="profileName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Staging"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="profileUrl">Backend URL</Label>
+                <Input
+                  id="profileUrl"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="https://staging.example.com"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="profileStreamUrl">Stream URL (optional)</Label>
+              <Input
+                id="profileStreamUrl"
+                value={streamUrl}
+                onChange={(e) => setStreamUrl(e.target.value)}
+                placeholder="Defaults to <backend URL>/stream"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit">Add Profile</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { FileWarning } from 'lucide-react';
+import { isContractError } from '@/services/errors';
+
+interface ContractMismatchPanelProps {
+  errors: unknown[];
+}
+
+export function ContractMismatchPanel({ errors }: ContractMismatchPanelProps) {
+  const mismatches = errors.filter(isContractError);
+
+  if (mismatches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive">
+      <FileWarning className="h-4 w-4" />
+      <AlertTitle>Backend contract mismatch</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          The backend returned data in a shape this dashboard does not understand.
+          The affected views are hidden until the responses match.
+        </p>
+        {mismatches.map((error) => (
+          <div key={`${error.method} ${error.endpoint}`}>
+            <div className="font-mono text-xs font-semibold">
+              {error.method} {error.endpoint}
+            </div>
+            <ul className="mt-1 list-disc pl-5 text-xs">
+              {error.issues.map((issue) => (
+                <li key={`${issue.path}:${issue.message}`}>
+                  <span className="font-mono">{issue.path}</span>: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
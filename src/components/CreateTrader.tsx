@@ -1,389 +1,513 @@
-import { useState } from 'react';
+import { useMemo, useState, type ReactNode } from 'react';
+import { useForm, type Control, type FieldPath, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, X } from 'lucide-react';
-import { tradingAPI, type TraderConfig } from '@/services/api';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { type StrategyDefinition, type StrategyParameter, type TraderConfig, type TraderSettings } from '@/services/api';
+import { useArchivedTraders, useCreateTrader, useStrategies, useSymbolCatalog, useTraders } from '@/hooks/use-trading-queries';
 import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { BALANCED_PRESET, type TraderPreset } from '@/services/presets';
+import { describeOverrides, formatSettingValue, SETTING_FIELDS, traderConfigRules, type SettingField } from '@/lib/trader-config';
+import { inheritingSymbols, OVERRIDABLE_KEYS, overrideErrorKey, pruneOverrides } from '@/lib/symbol-overrides';
+import {
+  CLASSIC_STRATEGY,
+  findStrategy,
+  formatParameterValue,
+  parameterPath,
+  parameterValue,
+  selectStrategy,
+  strategyName,
+  strategyRules,
+  traderStrategyId,
+  type ParameterValue,
+} from '@/lib/strategies';
+import { describeRule, RULE_SETS, validateRules } from '@/lib/rules';
+import { maxLeverageFor, symbolCatalogRules } from '@/lib/symbols';
+import { MODE_LABELS, traderMode } from '@/lib/trading-mode';
+import { cn } from '@/lib/utils';
+import { PresetPicker } from './PresetPicker';
+import { RuleBuilder } from './RuleBuilder';
+import { StrategyParameterFields, StrategySelect } from './StrategyFields';
+import { SymbolOverridesGrid } from './SymbolOverrides';
+import { SymbolPicker } from './SymbolPicker';
+import { TradingModePicker } from './TradingMode';
+import { TraderOrganizationFields } from './TraderOrganization';
 
 interface CreateTraderProps {
-  onTraderCreated: () => void;
+  // Pre-fill from an existing trader instead of the default preset
+  duplicateOf?: { name: string; settings: TraderSettings };
+  trigger?: ReactNode;
 }
 
-export function CreateTrader({ onTraderCreated }: CreateTraderProps) {
+interface WizardStep {
+  title: string;
+  description: string;
+  // Validated before moving on to the next step
+  fields: FieldPath<TraderConfig>[];
+}
+
+const fieldKeys = (group: SettingField['group']) =>
+  SETTING_FIELDS.filter(field => field.group === group).map(field => field.key);
+
+const STEPS: WizardStep[] = [
+  { title: 'Basics', description: 'Name, starting point and where it trades', fields: ['name', 'initial_balance', 'mode'] },
+  { title: 'Risk', description: 'How much each trade and each day may lose', fields: fieldKeys('risk') },
+  { title: 'Symbols', description: 'Markets the trader watches and any settings they override', fields: ['symbols', 'symbol_overrides'] },
+  {
+    title: 'Strategy',
+    description: 'What decides when to trade, and its parameters',
+    fields: ['strategy', 'strategy_params', ...fieldKeys('indicators')],
+  },
+  { title: 'Rules', description: 'Optional entry and exit conditions on top of the strategy', fields: ['rules'] },
+  { title: 'Review', description: 'Check everything before the trader is created', fields: [] },
+];
+
+const REVIEW_STEP = STEPS.length - 1;
+
+const UNIT_SUFFIX: Record<NonNullable<SettingField['unit']>, string> = {
+  percent: ' (%)',
+  leverage: ' (x)',
+  minutes: ' (minutes)',
+};
+
+// New traders start on paper; going live is a deliberate choice
+const defaultConfig = (): TraderConfig => ({ name: '', mode: 'paper', ...BALANCED_PRESET.settings });
+
+function SettingInput({ control, field, description }: { control: Control<TraderConfig>; field: SettingField; description?: string }) {
+  return (
+    <FormField
+      control={control}
+      name={field.key}
+      render={({ field: input }) => (
+        <FormItem>
+          <FormLabel>{field.label}{field.unit ? UNIT_SUFFIX[field.unit] : ''}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={field.step ?? 1}
+              name={input.name}
+              ref={input.ref}
+              onBlur={input.onBlur}
+              // Fractions are typed as percentages; round away float noise such as 0.07 * 100
+              value={Number.isNaN(input.value) ? '' : field.unit === 'percent' ? Number((input.value * 100).toFixed(4)) : input.value}
+              onChange={(e) => {
+                const parsed = field.integer ? parseInt(e.target.value) : parseFloat(e.target.value);
+                input.onChange(field.unit === 'percent' ? parsed / 100 : parsed);
+              }}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function CreateTrader({ duplicateOf, trigger }: CreateTraderProps) {
   const [open, setOpen] = useState(false);
-  const [loading, setLoading] = useState(false);
-  const [newSymbol, setNewSymbol] = useState('');
+  const [step, setStep] = useState(0);
+  const [presetId, setPresetId] = useState(BALANCED_PRESET.id);
+  const { data: traders = [] } = useTraders();
+  const { data: archivedTraders = [] } = useArchivedTraders();
+  const { data: catalog } = useSymbolCatalog();
+  const { data: strategies = [CLASSIC_STRATEGY] } = useStrategies();
   const { toast } = useToast();
+  const createTrader = useCreateTrader();
+
+  // Names have to be unique across archived traders too, since those can be restored.
+  // Symbols are only checked against the exchange when the backend publishes its catalog.
+  const schema = useMemo(() => {
+    const takenNames = new Set([...traders, ...archivedTraders].map(t => t.name));
+    const rules = catalog ? traderConfigRules.superRefine(symbolCatalogRules(catalog)) : traderConfigRules;
+    return rules.refine(config => !takenNames.has(config.name.trim()), {
+      path: ['name'],
+      message: 'A trader with this name already exists',
+    });
+  }, [traders, archivedTraders, catalog]);
+
+  // Parameter ranges come from whichever strategy is selected when the form is validated
+  const resolver: Resolver<TraderConfig> = (values, context, options) => {
+    const definition = findStrategy(strategies, traderStrategyId(values));
+    return zodResolver(definition ? schema.superRefine(strategyRules(definition)) : schema)(values, context, options);
+  };
 
-  const [config, setConfig] = useState<TraderConfig>({
-    name: '',
-    initial_balance: 10000,
-    risk_per_trade: 0.02,
-    leverage: 10,
-    cooldown_minutes: 5,
-    daily_loss_limit: 0.05,
-    max_open_trades: 3,
-    symbols: ['BTCUSDT', 'ETHUSDT'],
-    rsi_period: 14,
-    rsi_overbought: 70,
-    rsi_oversold: 30,
-    bollinger_period: 20,
-    bollinger_std: 2,
-    ma_short: 10,
-    ma_long: 20,
-    volume_threshold: 1000000,
+  const form = useForm<TraderConfig>({
+    resolver,
+    defaultValues: defaultConfig(),
+    mode: 'onTouched',
   });
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!config.name.trim()) {
-      toast({
-        title: "Validation Error",
-        description: "Trader name is required.",
-        variant: "destructive",
-      });
-      return;
+  // Every time the dialog opens it starts from the trader being duplicated or the default preset
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      form.reset(duplicateOf
+        ? { ...duplicateOf.settings, name: `${duplicateOf.name} (copy)`, mode: traderMode(duplicateOf.settings) }
+        : defaultConfig());
+      setPresetId(duplicateOf ? '' : BALANCED_PRESET.id);
+      setStep(0);
     }
+    setOpen(next);
+  };
 
-    if (config.symbols.length === 0) {
-      toast({
-        title: "Validation Error", 
-        description: "At least one trading symbol is required.",
-        variant: "destructive",
-      });
-      return;
-    }
+  const config = form.watch();
+  const { name, ...settings } = config;
+
+  const applyPreset = (preset: TraderPreset) => {
+    // Presets describe a strategy, not where it trades or how it is filed, so those choices stay
+    form.reset({ ...preset.settings, name, mode: config.mode, group: config.group, tags: config.tags });
+    setPresetId(preset.id);
+  };
 
-    setLoading(true);
+  const goNext = async () => {
+    if (await form.trigger(STEPS[step].fields)) setStep(step + 1);
+  };
+
+  const handleCreate = async (values: TraderConfig) => {
     try {
-      await tradingAPI.createTrader(config);
+      await createTrader.mutateAsync({ ...values, name: values.name.trim() });
       toast({
         title: "Trader Created",
-        description: `${config.name} has been created successfully.`,
+        description: `${values.name.trim()} has been created successfully.`,
       });
       setOpen(false);
-      onTraderCreated();
-      
-      // Reset form
-      setConfig({
-        ...config,
-        name: '',
-        symbols: ['BTCUSDT', 'ETHUSDT'],
-      });
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to create trader. Please try again.",
+        title: "Failed to create trader",
+        description: getErrorMessage(error, "Please try again."),
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const addSymbol = () => {
-    if (newSymbol.trim() && !config.symbols.includes(newSymbol.trim().toUpperCase())) {
-      setConfig({
-        ...config,
-        symbols: [...config.symbols, newSymbol.trim().toUpperCase()]
-      });
-      setNewSymbol('');
-    }
+  // Only reachable if something changed behind an earlier step; send the user back to it
+  const handleInvalid = () => {
+    const firstInvalid = STEPS.findIndex(s => s.fields.some(field => form.getFieldState(field).invalid));
+    if (firstInvalid >= 0) setStep(firstInvalid);
   };
 
-  const removeSymbol = (symbol: string) => {
-    setConfig({
-      ...config,
-      symbols: config.symbols.filter(s => s !== symbol)
-    });
+  // Symbols with their own leverage are checked against their own exchange limit in the grid
+  const leverageLimit = catalog ? maxLeverageFor(catalog, inheritingSymbols(config, 'leverage')) : undefined;
+
+  // Flattened for the override grid, which looks problems up by overrideErrorKey
+  const overrideErrors: Record<string, string> = {};
+  config.symbols.forEach(symbol => OVERRIDABLE_KEYS.forEach(key => {
+    const message = form.getFieldState(`symbol_overrides.${symbol}.${key}`, form.formState).error?.message;
+    if (message) overrideErrors[overrideErrorKey(symbol, key)] = message;
+  }));
+
+  const strategy = findStrategy(strategies, traderStrategyId(config));
+
+  const changeStrategy = (definition: StrategyDefinition) => {
+    const next = selectStrategy(config, definition);
+    form.setValue('strategy', next.strategy);
+    form.setValue('strategy_params', next.strategy_params);
+    form.clearErrors('strategy_params');
+  };
+
+  const changeParameter = (param: StrategyParameter, value: ParameterValue) => {
+    form.setValue(parameterPath(param) as FieldPath<TraderConfig>, value as never, { shouldValidate: true });
   };
 
-  const updateConfig = (field: keyof TraderConfig, value: any) => {
-    setConfig({ ...config, [field]: value });
+  const strategyErrors: Record<string, string> = {};
+  strategy?.parameters.forEach(param => {
+    const path = parameterPath(param);
+    const message = form.getFieldState(path as FieldPath<TraderConfig>, form.formState).error?.message;
+    if (message) strategyErrors[path] = message;
+  });
+
+  // Rule problems are shown once the step has been validated, then follow the edits
+  const ruleErrors = form.getFieldState('rules', form.formState).invalid ? validateRules(config.rules) : {};
+
+  const setSymbols = (symbols: string[]) => {
+    form.setValue('symbols', symbols, { shouldValidate: true });
+    form.setValue('symbol_overrides', pruneOverrides(config.symbol_overrides, symbols));
   };
 
+  const renderFields = (group: SettingField['group']) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {SETTING_FIELDS.filter(field => field.group === group).map(field => (
+        <SettingInput
+          key={field.key}
+          control={form.control}
+          field={field}
+          description={field.key === 'leverage' && leverageLimit
+            ? `${leverageLimit.symbol} allows up to ${leverageLimit.leverage}x`
+            : undefined}
+        />
+      ))}
+    </div>
+  );
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
-        <Button>
-          <Plus className="w-4 h-4 mr-2" />
-          Create New Trader
-        </Button>
+        {trigger ?? (
+          <Button>
+            <Plus className="w-4 h-4 mr-2" />
+            Create New Trader
+          </Button>
+        )}
       </DialogTrigger>
-      
+
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Create New Trading Bot</DialogTitle>
+          <DialogTitle>{duplicateOf ? `Duplicate ${duplicateOf.name}` : 'Create New Trading Bot'}</DialogTitle>
           <DialogDescription>
-            Configure a new automated trading bot with custom parameters
+            {duplicateOf
+              ? 'Start a new bot from this trader\'s configuration; its trades and history are not copied'
+              : 'Configure a new automated trading bot with custom parameters'}
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Basic Configuration */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Basic Configuration</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="name">Trader Name</Label>
-                  <Input
-                    id="name"
-                    value={config.name}
-                    onChange={(e) => updateConfig('name', e.target.value)}
-                    placeholder="My Trading Bot"
-                    required
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="balance">Initial Balance ($)</Label>
-                  <Input
-                    id="balance"
-                    type="number"
-                    value={config.initial_balance}
-                    onChange={(e) => updateConfig('initial_balance', parseFloat(e.target.value))}
-                    min="100"
-                    step="100"
-                  />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Risk Management */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Risk Management</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="risk">Risk Per Trade (%)</Label>
-                  <Input
-                    id="risk"
-                    type="number"
-                    value={config.risk_per_trade * 100}
-                    onChange={(e) => updateConfig('risk_per_trade', parseFloat(e.target.value) / 100)}
-                    min="0.1"
-                    max="10"
-                    step="0.1"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="leverage">Leverage</Label>
-                  <Input
-                    id="leverage"
-                    type="number"
-                    value={config.leverage}
-                    onChange={(e) => updateConfig('leverage', parseInt(e.target.value))}
-                    min="1"
-                    max="100"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="dailyLimit">Daily Loss Limit (%)</Label>
-                  <Input
-                    id="dailyLimit"
-                    type="number"
-                    value={config.daily_loss_limit * 100}
-                    onChange={(e) => updateConfig('daily_loss_limit', parseFloat(e.target.value) / 100)}
-                    min="1"
-                    max="20"
-                    step="0.5"
-                  />
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="maxTrades">Max Open Trades</Label>
-                  <Input
-                    id="maxTrades"
-                    type="number"
-                    value={config.max_open_trades}
-                    onChange={(e) => updateConfig('max_open_trades', parseInt(e.target.value))}
-                    min="1"
-                    max="10"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="cooldown">Cooldown Period (minutes)</Label>
-                  <Input
-                    id="cooldown"
-                    type="number"
-                    value={config.cooldown_minutes}
-                    onChange={(e) => updateConfig('cooldown_minutes', parseInt(e.target.value))}
-                    min="1"
-                    max="60"
-                  />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Trading Symbols */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Trading Symbols</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex gap-2">
-                <Input
-                  value={newSymbol}
-                  onChange={(e) => setNewSymbol(e.target.value)}
-                  placeholder="BTCUSDT"
-                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addSymbol())}
-                />
-                <Button type="button" onClick={addSymbol}>Add</Button>
-              </div>
-              
-              <div className="flex flex-wrap gap-2">
-                {config.symbols.map((symbol) => (
-                  <Badge key={symbol} variant="outline" className="gap-1">
-                    {symbol}
-                    <X 
-                      className="w-3 h-3 cursor-pointer" 
-                      onClick={() => removeSymbol(symbol)}
+        {/* Steps: earlier ones can be revisited, later ones are reached with Next */}
+        <ol className="flex flex-wrap gap-2">
+          {STEPS.map((s, index) => (
+            <li key={s.title}>
+              <button
+                type="button"
+                disabled={index >= step}
+                onClick={() => setStep(index)}
+                className={cn(
+                  'flex items-center gap-2 rounded-full border px-3 py-1 text-sm',
+                  index === step && 'border-primary bg-primary text-primary-foreground',
+                  index < step && 'hover:bg-muted',
+                  index > step && 'text-muted-foreground'
+                )}
+              >
+                {index < step ? <Check className="w-3 h-3" /> : <span className="text-xs">{index + 1}</span>}
+                {s.title}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <Form {...form}>
+          <form
+            onSubmit={step === REVIEW_STEP
+              ? form.handleSubmit(handleCreate, handleInvalid)
+              : (e) => {
+                  e.preventDefault();
+                  goNext();
+                }}
+            className="space-y-6"
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle>{STEPS[step].title}</CardTitle>
+                <CardDescription>{STEPS[step].description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {step === 0 && (
+                  <>
+                    <PresetPicker
+                      settings={settings}
+                      selectedId={presetId}
+                      onSelect={applyPreset}
                     />
-                  </Badge>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Technical Indicators */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Technical Indicators</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="rsiPeriod">RSI Period</Label>
-                  <Input
-                    id="rsiPeriod"
-                    type="number"
-                    value={config.rsi_period}
-                    onChange={(e) => updateConfig('rsi_period', parseInt(e.target.value))}
-                    min="5"
-                    max="50"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="rsiOverbought">RSI Overbought</Label>
-                  <Input
-                    id="rsiOverbought"
-                    type="number"
-                    value={config.rsi_overbought}
-                    onChange={(e) => updateConfig('rsi_overbought', parseInt(e.target.value))}
-                    min="60"
-                    max="90"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="rsiOversold">RSI Oversold</Label>
-                  <Input
-                    id="rsiOversold"
-                    type="number"
-                    value={config.rsi_oversold}
-                    onChange={(e) => updateConfig('rsi_oversold', parseInt(e.target.value))}
-                    min="10"
-                    max="40"
-                  />
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="bollPeriod">Bollinger Period</Label>
-                  <Input
-                    id="bollPeriod"
-                    type="number"
-                    value={config.bollinger_period}
-                    onChange={(e) => updateConfig('bollinger_period', parseInt(e.target.value))}
-                    min="10"
-                    max="50"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="bollStd">Bollinger Std Dev</Label>
-                  <Input
-                    id="bollStd"
-                    type="number"
-                    value={config.bollinger_std}
-                    onChange={(e) => updateConfig('bollinger_std', parseFloat(e.target.value))}
-                    min="1"
-                    max="3"
-                    step="0.1"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="volume">Volume Threshold</Label>
-                  <Input
-                    id="volume"
-                    type="number"
-                    value={config.volume_threshold}
-                    onChange={(e) => updateConfig('volume_threshold', parseInt(e.target.value))}
-                    min="100000"
-                    step="100000"
-                  />
-                </div>
-              </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="maShort">MA Short Period</Label>
-                  <Input
-                    id="maShort"
-                    type="number"
-                    value={config.ma_short}
-                    onChange={(e) => updateConfig('ma_short', parseInt(e.target.value))}
-                    min="5"
-                    max="50"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="maLong">MA Long Period</Label>
-                  <Input
-                    id="maLong"
-                    type="number"
-                    value={config.ma_long}
-                    onChange={(e) => updateConfig('ma_long', parseInt(e.target.value))}
-                    min="10"
-                    max="100"
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Trader Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="My Trading Bot" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <SettingInput
+                        control={form.control}
+                        field={{ key: 'initial_balance', label: 'Initial Balance ($)', group: 'risk', step: 100 }}
+                      />
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="mode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Trading Mode</FormLabel>
+                          <TradingModePicker value={traderMode(config)} onChange={field.onChange} />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <TraderOrganizationFields
+                      group={config.group}
+                      tags={config.tags}
+                      onChange={({ group, tags }) => {
+                        form.setValue('group', group);
+                        form.setValue('tags', tags);
+                      }}
+                    />
+                  </>
+                )}
+
+                {step === 1 && renderFields('risk')}
+
+                {step === 2 && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="symbols"
+                      render={() => (
+                        <FormItem className="space-y-4">
+                          <SymbolPicker value={config.symbols} onChange={setSymbols} />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {config.symbols.length > 0 && (
+                      <div className="space-y-2">
+                        <div className="text-sm font-medium">Per-symbol overrides</div>
+                        <SymbolOverridesGrid
+                          settings={settings}
+                          errors={overrideErrors}
+                          onChange={(overrides) => form.setValue('symbol_overrides', overrides, { shouldValidate: true })}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {step === 3 && (
+                  <div className="space-y-6">
+                    <StrategySelect strategies={strategies} value={traderStrategyId(config)} onChange={changeStrategy} />
+                    {strategy ? (
+                      <StrategyParameterFields
+                        definition={strategy}
+                        settings={settings}
+                        errors={strategyErrors}
+                        onChange={changeParameter}
+                      />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        The backend no longer offers this strategy; pick another one to edit its parameters.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {step === 4 && (
+                  <RuleBuilder
+                    rules={config.rules}
+                    errors={ruleErrors}
+                    onChange={(rules) => form.setValue('rules', rules, { shouldValidate: form.getFieldState('rules').invalid })}
                   />
-                </div>
+                )}
+
+                {step === REVIEW_STEP && (
+                  <>
+                    {traderMode(config) === 'live' && (
+                      <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                          This trader will trade real funds. It is created stopped, and starting it asks for its name to be typed.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    <Table>
+                      <TableBody>
+                        <TableRow>
+                          <TableCell className="font-medium">Name</TableCell>
+                          <TableCell>{config.name}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Mode</TableCell>
+                          <TableCell>{MODE_LABELS[traderMode(config)]}</TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell className="font-medium">Initial Balance</TableCell>
+                          <TableCell>${config.initial_balance.toLocaleString()}</TableCell>
+                        </TableRow>
+                        {Boolean(config.group || config.tags?.length) && (
+                          <TableRow>
+                            <TableCell className="font-medium">Group / Tags</TableCell>
+                            <TableCell>
+                              {[config.group || 'No group', config.tags?.length ? config.tags.join(', ') : 'no tags'].join(' · ')}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        <TableRow>
+                          <TableCell className="font-medium">Symbols</TableCell>
+                          <TableCell>{config.symbols.join(', ')}</TableCell>
+                        </TableRow>
+                        {describeOverrides(settings).length > 0 && (
+                          <TableRow>
+                            <TableCell className="font-medium">Symbol Overrides</TableCell>
+                            <TableCell>
+                              {describeOverrides(settings).map(line => <div key={line}>{line}</div>)}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {SETTING_FIELDS.filter(field => field.group === 'risk').map(field => (
+                          <TableRow key={field.key}>
+                            <TableCell className="font-medium">{field.label}</TableCell>
+                            <TableCell>{formatSettingValue(field, config[field.key])}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell className="font-medium">Strategy</TableCell>
+                          <TableCell>{strategyName(strategies, traderStrategyId(config))}</TableCell>
+                        </TableRow>
+                        {strategy?.parameters.map(param => (
+                          <TableRow key={param.key}>
+                            <TableCell className="font-medium">{param.label}</TableCell>
+                            <TableCell>{formatParameterValue(param, parameterValue(settings, param))}</TableCell>
+                          </TableRow>
+                        ))}
+                        {RULE_SETS.filter(set => config.rules?.[set.key]).map(set => (
+                          <TableRow key={set.key}>
+                            <TableCell className="font-medium">{set.label} Rule</TableCell>
+                            <TableCell className="font-mono text-xs">{describeRule(config.rules[set.key])}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-between gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <div className="flex gap-2">
+                {step > 0 && (
+                  <Button type="button" variant="outline" onClick={() => setStep(step - 1)}>
+                    <ChevronLeft className="w-4 h-4 mr-2" />
+                    Back
+                  </Button>
+                )}
+                {step === REVIEW_STEP ? (
+                  <Button type="submit" disabled={createTrader.isPending}>
+                    {createTrader.isPending ? 'Creating...' : 'Create Trader'}
+                  </Button>
+                ) : (
+                  <Button type="submit">
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-2" />
+                  </Button>
+                )}
               </div>
-            </CardContent>
-          </Card>
-
-          <div className="flex justify-end gap-2">
-            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={loading}>
-              {loading ? 'Creating...' : 'Create Trader'}
-            </Button>
-          </div>
-        </form>
+            </div>
+          </form>
+        </Form>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,117 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { type PerformanceMetrics, type TradeEntry } from '@/services/api';
+import { computeAnalytics, findDiscrepancies, formatDuration, type TradeAnalytics } from '@/lib/analytics';
+
+interface DetailedStatisticsProps {
+  trades: TradeEntry[];
+  initialBalance: number;
+  backend: PerformanceMetrics | null;
+  // The backend's figures cover every trade, so a filtered list isn't compared with them
+  filtered?: boolean;
+}
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const percent = (fraction: number) => `${(fraction * 100).toFixed(2)}%`;
+const ratio = (value: number) => value.toFixed(2);
+
+type Formatter = (value: number) => string;
+
+const STATISTICS: { key: keyof TradeAnalytics; label: string; format: Formatter; hint: string }[] = [
+  { key: 'sortino_ratio', label: 'Sortino Ratio', format: ratio, hint: 'Average return over the deviation of losing returns only' },
+  { key: 'calmar_ratio', label: 'Calmar Ratio', format: ratio, hint: 'Annualized return over the maximum drawdown' },
+  { key: 'expectancy', label: 'Expectancy', format: money, hint: 'Average profit per closed trade' },
+  { key: 'payoff_ratio', label: 'Payoff Ratio', format: ratio, hint: 'Average win over average loss' },
+  { key: 'recovery_factor', label: 'Recovery Factor', format: ratio, hint: 'Net profit over the largest drawdown in dollars' },
+  { key: 'ulcer_index', label: 'Ulcer Index', format: ratio, hint: 'How deep and how long drawdowns lasted; lower is better' },
+  { key: 'avg_holding_ms', label: 'Avg Holding Time', format: formatDuration, hint: 'From entry to exit' },
+  { key: 'longest_win_streak', label: 'Longest Win Streak', format: String, hint: 'Consecutive winning trades' },
+  { key: 'longest_loss_streak', label: 'Longest Loss Streak', format: String, hint: 'Consecutive losing trades' },
+  { key: 'sharpe_ratio', label: 'Sharpe Ratio', format: ratio, hint: 'Average return over its standard deviation' },
+  { key: 'max_drawdown', label: 'Max Drawdown', format: percent, hint: 'Largest fall from an equity peak' },
+  { key: 'profit_factor', label: 'Profit Factor', format: ratio, hint: 'Gross profit over gross loss' },
+];
+
+const DISCREPANCY_FORMAT: Partial<Record<keyof TradeAnalytics, Formatter>> = {
+  total_trades: String,
+  winning_trades: String,
+  losing_trades: String,
+  win_rate: percent,
+  max_drawdown: percent,
+  avg_win: money,
+  avg_loss: money,
+  total_pnl: money,
+};
+
+// Extended metrics worked out from the trade list, checked against what the backend reports
+export function DetailedStatistics({ trades, initialBalance, backend, filtered = false }: DetailedStatisticsProps) {
+  const analytics = useMemo(() => computeAnalytics(trades, initialBalance), [trades, initialBalance]);
+  const compared = filtered ? null : backend;
+  const discrepancies = compared ? findDiscrepancies(compared, analytics) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Detailed Statistics</CardTitle>
+        <CardDescription>
+          Computed in the dashboard from {analytics.total_trades} closed trade{analytics.total_trades === 1 ? '' : 's'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {STATISTICS.map(stat => (
+            <div key={stat.key} title={stat.hint}>
+              <div className="text-sm text-muted-foreground">{stat.label}</div>
+              <div className="text-lg font-semibold">{stat.format(analytics[stat.key])}</div>
+            </div>
+          ))}
+        </div>
+
+        {compared && discrepancies.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>The backend's metrics don't match its trades</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>These figures differ from what the trade history adds up to; the backend may compute them another way.</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead>Backend</TableHead>
+                    <TableHead>From trades</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discrepancies.map(d => {
+                    const format = DISCREPANCY_FORMAT[d.key] ?? ratio;
+                    return (
+                      <TableRow key={d.key}>
+                        <TableCell className="font-medium">{d.label}</TableCell>
+                        <TableCell>{format(d.backend)}</TableCell>
+                        <TableCell>{format(d.local)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </AlertDescription>
+          </Alert>
+        )}
+        {compared && discrepancies.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="w-4 h-4 text-profit" />
+            The backend's win rate, averages, profit factor, drawdown, P&L and Sharpe ratio match the trade history.
+          </p>
+        )}
+        {filtered && (
+          <p className="text-sm text-muted-foreground">
+            The backend's figures cover all trades, so they are only checked when all trades are shown.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
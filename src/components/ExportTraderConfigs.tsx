@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Download } from 'lucide-react';
+import { type TraderSummary } from '@/services/api';
+import { useExportTraderConfigs } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { configFileName, serializeTraderConfigs, type ConfigFileFormat } from '@/lib/config-files';
+import { downloadFile } from '@/lib/utils';
+
+interface ExportTraderConfigsProps {
+  traders: TraderSummary[];
+}
+
+export function ExportTraderConfigs({ traders }: ExportTraderConfigsProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [format, setFormat] = useState<ConfigFileFormat>('yaml');
+  const exportConfigs = useExportTraderConfigs();
+  const { toast } = useToast();
+
+  const allSelected = selectedIds.length === traders.length;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setSelectedIds(traders.map(t => t.id));
+    setOpen(next);
+  };
+
+  const toggleTrader = (traderId: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, traderId] : selectedIds.filter(id => id !== traderId));
+  };
+
+  const handleExport = async () => {
+    try {
+      // Keep the list order rather than the order traders were ticked
+      const ids = traders.filter(t => selectedIds.includes(t.id)).map(t => t.id);
+      const configs = await exportConfigs.mutateAsync(ids);
+      const fileName = configFileName(configs.length === 1 ? configs[0].name : 'trader_configs', format);
+      downloadFile(
+        serializeTraderConfigs(configs, format),
+        fileName,
+        format === 'yaml' ? 'application/yaml' : 'application/json'
+      );
+
+      toast({
+        title: "Export Complete",
+        description: `${configs.length} trader config${configs.length === 1 ? '' : 's'} saved to ${fileName}.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: getErrorMessage(error, "Failed to export trader configs."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={traders.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Trader Configs</DialogTitle>
+          <DialogDescription>
+            Download configurations as a file you can keep in version control and import later
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => setSelectedIds(checked === true ? traders.map(t => t.id) : [])}
+            />
+            Select all ({traders.length})
+          </label>
+          <div className="max-h-64 overflow-y-auto space-y-2 border rounded-md p-3">
+            {traders.map(trader => (
+              <label key={trader.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selectedIds.includes(trader.id)}
+                  onCheckedChange={(checked) => toggleTrader(trader.id, checked === true)}
+                />
+                {trader.name}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ConfigFileFormat)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yaml">YAML</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={selectedIds.length === 0 || exportConfigs.isPending}>
+            {exportConfigs.isPending ? 'Exporting...' : `Export ${selectedIds.length}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
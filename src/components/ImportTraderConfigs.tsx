@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { type TraderSummary } from '@/services/api';
+import { useCreateTrader } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { parseTraderConfigFile, type ImportedConfig } from '@/lib/config-files';
+
+interface ImportTraderConfigsProps {
+  traders: TraderSummary[];
+}
+
+// Result per file entry: created, or the reason the backend refused it
+interface ImportOutcome {
+  created: boolean;
+  error?: string;
+}
+
+export function ImportTraderConfigs({ traders }: ImportTraderConfigsProps) {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ImportedConfig[]>([]);
+  const [outcomes, setOutcomes] = useState<Record<number, ImportOutcome>>({});
+  const [importing, setImporting] = useState(false);
+  const createTrader = useCreateTrader();
+  const { toast } = useToast();
+
+  const pending = entries.filter(entry => entry.config && !outcomes[entry.index]?.created);
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    if (next) {
+      setFileName('');
+      setFileError(null);
+      setEntries([]);
+      setOutcomes({});
+    }
+    setOpen(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setOutcomes({});
+    try {
+      const text = await file.text();
+      setEntries(parseTraderConfigFile(text, file.name, traders.map(t => t.name)));
+      setFileError(null);
+    } catch (error) {
+      setEntries([]);
+      setFileError(getErrorMessage(error, `Could not read ${file.name}.`));
+    }
+  };
+
+  // One at a time so a failure in the middle leaves a clear record of what was created
+  const handleImport = async () => {
+    setImporting(true);
+    const results: Record<number, ImportOutcome> = { ...outcomes };
+    for (const entry of pending) {
+      try {
+        await createTrader.mutateAsync(entry.config!);
+        results[entry.index] = { created: true };
+      } catch (error) {
+        results[entry.index] = { created: false, error: getErrorMessage(error, "Failed to create trader.") };
+      }
+      setOutcomes({ ...results });
+    }
+    setImporting(false);
+
+    const failed = pending.filter(entry => !results[entry.index].created).length;
+    const created = pending.length - failed;
+    if (failed === 0) {
+      toast({
+        title: "Import Complete",
+        description: `${created} trader${created === 1 ? '' : 's'} created from ${fileName}.`,
+      });
+      setOpen(false);
+    } else {
+      toast({
+        title: "Import Incomplete",
+        description: `${created} created, ${failed} failed. Fix the failed entries and import again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderStatus = (entry: ImportedConfig) => {
+    const outcome = outcomes[entry.index];
+    if (outcome?.created) return <Badge>Created</Badge>;
+    const errors = outcome ? [outcome.error] : entry.errors;
+    if (errors.length === 0) return <Badge variant="secondary">Ready</Badge>;
+    return (
+      <div className="space-y-1">
+        <Badge variant="destructive">{outcome ? 'Failed' : 'Invalid'}</Badge>
+        <ul className="text-xs text-loss list-disc pl-4">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Trader Configs</DialogTitle>
+          <DialogDescription>
+            Create traders in bulk from a JSON or YAML file. Every config is checked before anything is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="config-file">Config File</Label>
+            <Input
+              id="config-file"
+              type="file"
+              accept=".json,.yaml,.yml"
+              className="mt-1"
+              onChange={handleFile}
+              disabled={importing}
+            />
+          </div>
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {entries.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Symbols</TableHead>
+                  <TableHead>Risk</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.index}>
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell>{entry.config?.symbols.join(', ') ?? '-'}</TableCell>
+                    <TableCell>
+                      {entry.config
+                        ? `${(entry.config.risk_per_trade * 100).toFixed(1)}% at ${entry.config.leverage}x`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>{renderStatus(entry)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={pending.length === 0 || importing}>
+            {importing ? 'Creating...' : `Create ${pending.length} Trader${pending.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
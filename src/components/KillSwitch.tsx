@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertTriangle, OctagonX } from 'lucide-react';
+import { type TraderSummary } from '@/services/api';
+import { useKillSwitch, type KillSwitchStep, type KillSwitchTraderResult } from '@/hooks/use-kill-switch';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+
+interface KillSwitchProps {
+  traders: TraderSummary[];
+}
+
+const CONFIRM_STOP = 'STOP ALL';
+const CONFIRM_FLATTEN = 'FLATTEN ALL';
+
+const STEP_LABELS: Record<KillSwitchStep, string> = {
+  pending: 'Waiting',
+  stopping: 'Stopping...',
+  closing: 'Closing positions...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function describeResult(result: KillSwitchTraderResult) {
+  const parts: string[] = [];
+  if (result.wasRunning) parts.push(result.stopped ? 'stopped' : 'still running');
+  if (result.openTrades > 0) parts.push(`closed ${result.closedTrades} of ${result.openTrades} trades`);
+  return parts.join(', ');
+}
+
+export function KillSwitch({ traders }: KillSwitchProps) {
+  const [open, setOpen] = useState(false);
+  const [closePositions, setClosePositions] = useState(true);
+  const [confirmation, setConfirmation] = useState('');
+  const [finished, setFinished] = useState(false);
+  const killSwitch = useKillSwitch();
+  const { toast } = useToast();
+
+  const runningCount = traders.filter(t => t.is_running).length;
+  const openTradeCount = traders.reduce((sum, t) => sum + t.open_trades, 0);
+  const requiredText = closePositions ? CONFIRM_FLATTEN : CONFIRM_STOP;
+  const { results } = killSwitch;
+
+  const handleOpenChange = (next: boolean) => {
+    if (killSwitch.running) return;
+    if (next) {
+      setConfirmation('');
+      setFinished(false);
+      killSwitch.reset();
+    }
+    setOpen(next);
+  };
+
+  const handleActivate = async () => {
+    try {
+      const { traders: handled, failed } = await killSwitch.run({ closePositions });
+      setFinished(true);
+      toast({
+        title: failed ? "Kill Switch Incomplete" : "Kill Switch Complete",
+        description: handled === 0
+          ? "Nothing was running and no positions were open."
+          : `${handled - failed} of ${handled} trader${handled === 1 ? '' : 's'} handled without errors.`,
+        variant: failed ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Kill Switch Failed",
+        description: getErrorMessage(error, "Could not load the trader list."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stoppedCount = results.filter(r => r.stopped).length;
+  const wasRunningCount = results.filter(r => r.wasRunning).length;
+  const closedCount = results.reduce((sum, r) => sum + r.closedTrades, 0);
+  const foundOpenCount = results.reduce((sum, r) => sum + r.openTrades, 0);
+  const failedResults = results.filter(r => r.step === 'failed');
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="destructive">
+          <OctagonX className="w-4 h-4 mr-2" />
+          Kill Switch
+          {runningCount > 0 && <Badge variant="secondary" className="ml-2">{runningCount}</Badge>}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Emergency Stop</DialogTitle>
+          <DialogDescription>
+            Stops every running trader on this backend at once. {runningCount} of {traders.length} traders
+            are running with {openTradeCount} open trade{openTradeCount === 1 ? '' : 's'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results.length === 0 && !finished ? (
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={closePositions}
+                onCheckedChange={(checked) => {
+                  setClosePositions(checked === true);
+                  setConfirmation('');
+                }}
+                disabled={killSwitch.running}
+              />
+              Also close every open position at market price
+            </label>
+
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>This cannot be undone</AlertTitle>
+              <AlertDescription>
+                {closePositions
+                  ? 'Open positions are closed at whatever the market price is right now, locking in their current profit or loss.'
+                  : 'Open positions stay open without a running trader to manage them.'}
+              </AlertDescription>
+            </Alert>
+
+            <div>
+              <Label htmlFor="kill-switch-confirm">
+                Type <span className="font-mono font-semibold">{requiredText}</span> to confirm
+              </Label>
+              <Input
+                id="kill-switch-confirm"
+                className="mt-1 font-mono"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                disabled={killSwitch.running}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {finished && (
+              <Alert variant={failedResults.length ? "destructive" : "default"}>
+                <AlertTitle>Summary</AlertTitle>
+                <AlertDescription>
+                  {results.length === 0
+                    ? 'Nothing was running and no positions were open.'
+                    : `Stopped ${stoppedCount} of ${wasRunningCount} running traders` +
+                      (closePositions ? `, closed ${closedCount} of ${foundOpenCount} open trades` : '') +
+                      (failedResults.length ? `. ${failedResults.length} trader${failedResults.length === 1 ? '' : 's'} reported errors.` : '.')}
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              {results.map(result => (
+                <div key={result.traderId} className="border rounded-md p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{result.name}</span>
+                    <Badge
+                      variant={result.step === 'failed' ? "destructive" : result.step === 'done' ? "default" : "secondary"}
+                    >
+                      {STEP_LABELS[result.step]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{describeResult(result)}</p>
+                  {result.errors.length > 0 && (
+                    <ul className="text-xs text-loss list-disc pl-4 mt-1">
+                      {result.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {finished ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={killSwitch.running}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleActivate}
+                disabled={confirmation.trim() !== requiredText || killSwitch.running}
+              >
+                {killSwitch.running ? 'Stopping...' : closePositions ? 'Stop All and Flatten' : 'Stop All Traders'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
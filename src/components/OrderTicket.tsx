@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { CheckCircle2, ShoppingCart, XCircle } from 'lucide-react';
+import { type ManualOrder, type TradeEntry, type TraderStatus } from '@/services/api';
+import { useOpenTrade, useSymbolCatalog, useTechnicalIndicators } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { preTradeChecks, riskBasedQuantity, validateOrder } from '@/lib/orders';
+import { effectiveSettings } from '@/lib/symbol-overrides';
+import { findSymbol, formatPrice, roundToTick } from '@/lib/symbols';
+
+interface OrderTicketProps {
+  traderId: string;
+  traderName: string;
+  status: TraderStatus;
+  trades: TradeEntry[];
+}
+
+type Sizing = 'risk' | 'quantity';
+
+// Starting levels match the trader's own entries: 1% stop, twice that to the target
+const DEFAULT_STOP_DISTANCE = 0.01;
+const DEFAULT_REWARD_RATIO = 2;
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+function OrderTicketForm({ traderId, traderName, status, trades, onDone }: OrderTicketProps & { onDone: () => void }) {
+  const { config } = status;
+  const [symbol, setSymbol] = useState(config.symbols[0] ?? '');
+  const [side, setSide] = useState<ManualOrder['side']>('LONG');
+  const [sizing, setSizing] = useState<Sizing>('risk');
+  const [quantityInput, setQuantityInput] = useState('');
+  const [leverageInput, setLeverageInput] = useState(String(effectiveSettings(config, symbol).leverage));
+  const [stopLoss, setStopLoss] = useState('');
+  const [takeProfit, setTakeProfit] = useState('');
+  const [levelsFor, setLevelsFor] = useState('');
+  const { data: indicators, isLoading: priceLoading } = useTechnicalIndicators(traderId, symbol);
+  const { data: catalog = [] } = useSymbolCatalog();
+  const openTrade = useOpenTrade();
+  const { toast } = useToast();
+  const info = findSymbol(catalog, symbol);
+
+  const price = indicators?.price ?? 0;
+  // Leverage and risk can differ per symbol
+  const symbolConfig = effectiveSettings(config, symbol);
+
+  const selectSymbol = (next: string) => {
+    setSymbol(next);
+    setLeverageInput(String(effectiveSettings(config, next).leverage));
+  };
+
+  // Suggest levels whenever the symbol or side changes, once a price is known
+  useEffect(() => {
+    const key = `${symbol}:${side}`;
+    if (!price || levelsFor === key) return;
+    const direction = side === 'LONG' ? 1 : -1;
+    // Rounded to the symbol's tick, so sub-dollar prices keep a real stop distance
+    const level = (distance: number) => formatPrice(roundToTick(price * (1 + direction * distance), info), info);
+    setStopLoss(level(-DEFAULT_STOP_DISTANCE));
+    setTakeProfit(level(DEFAULT_STOP_DISTANCE * DEFAULT_REWARD_RATIO));
+    setLevelsFor(key);
+  }, [price, symbol, side, levelsFor, info]);
+
+  const leverage = parseInt(leverageInput, 10);
+  const stop = parseFloat(stopLoss);
+  const target = parseFloat(takeProfit);
+  const quantity = sizing === 'risk' ? riskBasedQuantity(status, symbol, price, stop, leverage || 1) : parseFloat(quantityInput);
+  const order: ManualOrder = { symbol, side, quantity, leverage, stop_loss: stop, take_profit: target };
+
+  const errors = price ? validateOrder(order, status, price) : {};
+  const checks = preTradeChecks(status, trades);
+  const blocked = checks.some(check => !check.passed);
+  const valid = price > 0 && Object.keys(errors).length === 0;
+
+  const lossAtStop = valid ? Math.abs(price - stop) * quantity : 0;
+  const gainAtTarget = valid ? Math.abs(target - price) * quantity : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await openTrade.mutateAsync({ traderId, order });
+      toast({
+        title: "Order Filled",
+        description: `Opened ${symbol} ${side} on ${traderName}.`,
+      });
+      onDone();
+    } catch (error) {
+      toast({
+        title: "Order Rejected",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] ? <p className="text-sm text-loss mt-1">{errors[field]}</p> : null;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Symbol</Label>
+          <Select value={symbol} onValueChange={selectSymbol}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {config.symbols.map(s => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {fieldError('symbol')}
+        </div>
+        <div>
+          <Label>Side</Label>
+          <Select value={side} onValueChange={(value) => setSide(value as ManualOrder['side'])}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="LONG">Long</SelectItem>
+              <SelectItem value="SHORT">Short</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label>Sizing</Label>
+          <Select value={sizing} onValueChange={(value) => setSizing(value as Sizing)}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="risk">Risk {(symbolConfig.risk_per_trade * 100).toFixed(1)}% of balance</SelectItem>
+              <SelectItem value="quantity">Fixed quantity</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="order-quantity">Quantity</Label>
+          <Input
+            id="order-quantity"
+            type="number"
+            step="any"
+            className="mt-1"
+            value={sizing === 'risk' ? (quantity > 0 ? quantity.toFixed(4) : '') : quantityInput}
+            onChange={(e) => setQuantityInput(e.target.value)}
+            disabled={sizing === 'risk'}
+          />
+          {fieldError('quantity')}
+        </div>
+
+        <div>
+          <Label htmlFor="order-leverage">Leverage (max {symbolConfig.leverage}x)</Label>
+          <Input
+            id="order-leverage"
+            type="number"
+            min="1"
+            max={symbolConfig.leverage}
+            className="mt-1"
+            value={leverageInput}
+            onChange={(e) => setLeverageInput(e.target.value)}
+          />
+          {fieldError('leverage')}
+        </div>
+        <div>
+          <Label>Entry Price</Label>
+          <div className="mt-1 h-10 flex items-center text-sm">
+            {priceLoading ? 'Loading price...' : price ? `≈ ${formatPrice(price, info)} at market` : 'No price available'}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="order-stop">Stop Loss</Label>
+          <Input
+            id="order-stop"
+            type="number"
+            step="any"
+            className="mt-1"
+            value={stopLoss}
+            onChange={(e) => setStopLoss(e.target.value)}
+          />
+          {fieldError('stop_loss')}
+        </div>
+        <div>
+          <Label htmlFor="order-target">Take Profit</Label>
+          <Input
+            id="order-target"
+            type="number"
+            step="any"
+            className="mt-1"
+            value={takeProfit}
+            onChange={(e) => setTakeProfit(e.target.value)}
+          />
+          {fieldError('take_profit')}
+        </div>
+      </div>
+
+      {valid && (
+        <Table>
+          <TableBody>
+            <TableRow>
+              <TableCell className="font-medium">Notional</TableCell>
+              <TableCell>{formatCurrency(quantity * price)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell className="font-medium">Margin required</TableCell>
+              <TableCell>{formatCurrency((quantity * price) / leverage)} of {formatCurrency(status.balance)}</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell className="font-medium">Loss if stopped</TableCell>
+              <TableCell className="text-loss">
+                {formatCurrency(lossAtStop)} ({((lossAtStop / status.balance) * 100).toFixed(2)}% of balance)
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell className="font-medium">Gain at target</TableCell>
+              <TableCell className="text-profit">{formatCurrency(gainAtTarget)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-2">
+        <Label>Risk Rules</Label>
+        {checks.map(check => (
+          <div key={check.label} className="flex items-center gap-2 text-sm">
+            {check.passed ? (
+              <CheckCircle2 className="w-4 h-4 text-profit" />
+            ) : (
+              <XCircle className="w-4 h-4 text-loss" />
+            )}
+            <span className="font-medium">{check.label}</span>
+            <span className="text-muted-foreground">{check.detail}</span>
+          </div>
+        ))}
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!valid || blocked || openTrade.isPending}>
+          {openTrade.isPending ? 'Submitting...' : `Open ${side === 'LONG' ? 'Long' : 'Short'}`}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+export function OrderTicket(props: OrderTicketProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ShoppingCart className="w-4 h-4 mr-2" />
+          New Order
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manual Order for {props.traderName}</DialogTitle>
+          <DialogDescription>
+            Opens a position under this trader's account and risk rules. It is marked as manual in the trade history.
+          </DialogDescription>
+        </DialogHeader>
+        <OrderTicketForm {...props} onDone={() => setOpen(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
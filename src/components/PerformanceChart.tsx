@@ -1,23 +1,39 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
-import { type TradeEntry, type PerformanceMetrics } from '@/services/api';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, ReferenceLine } from 'recharts';
+import { type ConfigRevision, type TradeEntry, type PerformanceMetrics, type TraderSettings } from '@/services/api';
+import { effectiveSettings, isOverridden } from '@/lib/symbol-overrides';
 import { useMemo } from 'react';
 
 interface PerformanceChartProps {
   trades: TradeEntry[];
   performance: PerformanceMetrics | null;
+  revisions?: ConfigRevision[];
+  // Current settings, to show what each symbol trades with
+  settings?: TraderSettings;
 }
 
-export function PerformanceChart({ trades, performance }: PerformanceChartProps) {
+interface EquityPoint {
+  time: string;
+  balance: number;
+  pnl: number;
+  symbol?: string;
+  side?: TradeEntry['side'];
+  // Epoch ms the trade closed; the balance only changes at that moment
+  closedAt?: number;
+}
+
+const closeTime = (trade: TradeEntry) => new Date(trade.exit_timestamp ?? trade.timestamp).getTime();
+
+export function PerformanceChart({ trades, performance, revisions = [], settings }: PerformanceChartProps) {
   const equityCurve = useMemo(() => {
     if (!trades.length || !performance) return [];
     
     let balance = performance.current_balance - performance.total_pnl;
-    const curve = [{ time: 'Start', balance, pnl: 0 }];
+    const curve: EquityPoint[] = [{ time: 'Start', balance, pnl: 0 }];
     
     const closedTrades = trades
       .filter(trade => trade.trade_status !== 'OPEN')
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      .sort((a, b) => closeTime(a) - closeTime(b));
     
     closedTrades.forEach((trade, index) => {
       const pnl = trade.actual_return_pct ? (trade.actual_return_pct / 100) * balance : 0;
@@ -27,13 +43,31 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
         balance,
         pnl: pnl,
         symbol: trade.symbol,
-        side: trade.side
+        side: trade.side,
+        closedAt: closeTime(trade),
       });
     });
     
     return curve;
   }, [trades, performance]);
 
+  // Pin each config change to the last equity point before it, so results either side can be compared
+  const revisionMarkers = useMemo(() => {
+    if (!equityCurve.length) return [];
+    const labels: Record<string, string[]> = {};
+
+    [...revisions]
+      .sort((a, b) => a.revision - b.revision)
+      .slice(1)
+      .forEach(revision => {
+        const changedAt = new Date(revision.created_at).getTime();
+        const point = [...equityCurve].reverse().find(p => (p.closedAt ?? -Infinity) <= changedAt) ?? equityCurve[0];
+        labels[point.time] = [...(labels[point.time] ?? []), `r${revision.revision}`];
+      });
+
+    return Object.entries(labels).map(([time, names]) => ({ time, label: names.join(', ') }));
+  }, [equityCurve, revisions]);
+
   const symbolPerformance = useMemo(() => {
     const symbolStats: Record<string, { wins: number; losses: number; totalPnL: number }> = {};
     
@@ -51,14 +85,25 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
       symbolStats[trade.symbol].totalPnL += trade.actual_return_pct || 0;
     });
     
-    return Object.entries(symbolStats).map(([symbol, stats]) => ({
-      symbol,
-      ...stats,
-      total: stats.wins + stats.losses,
-      winRate: stats.total > 0 ? (stats.wins / stats.total) * 100 : 0
-    }));
+    return Object.entries(symbolStats).map(([symbol, stats]) => {
+      const total = stats.wins + stats.losses;
+      return {
+        symbol,
+        ...stats,
+        total,
+        winRate: total > 0 ? (stats.wins / total) * 100 : 0
+      };
+    });
   }, [trades]);
 
+  // e.g. "SOLUSDT · 5x, 1.0% risk (overridden)"
+  const symbolLabel = (symbol: string) => {
+    if (!settings) return symbol;
+    const effective = effectiveSettings(settings, symbol);
+    const overridden = isOverridden(settings, symbol, 'leverage') || isOverridden(settings, symbol, 'risk_per_trade');
+    return `${symbol} · ${effective.leverage}x, ${(effective.risk_per_trade * 100).toFixed(1)}% risk${overridden ? ' (overridden)' : ''}`;
+  };
+
   const dailyPnL = useMemo(() => {
     const dailyStats: Record<string, number> = {};
     
@@ -92,11 +137,14 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
       <Card className="lg:col-span-2">
         <CardHeader>
           <CardTitle>Equity Curve</CardTitle>
-          <CardDescription>Portfolio balance over time</CardDescription>
+          <CardDescription>
+            Portfolio balance over time
+            {revisionMarkers.length > 0 && '; dashed lines mark configuration revisions'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={equityCurve}>
+            <LineChart data={equityCurve} margin={{ top: 20, right: 20 }}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="time" />
               <YAxis />
@@ -111,6 +159,15 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
                 strokeWidth={2}
                 dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2 }}
               />
+              {revisionMarkers.map(marker => (
+                <ReferenceLine
+                  key={marker.time}
+                  x={marker.time}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                  label={{ value: marker.label, position: 'top', fontSize: 12 }}
+                />
+              ))}
             </LineChart>
           </ResponsiveContainer>
         </CardContent>
@@ -130,6 +187,7 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
               <YAxis />
               <Tooltip 
                 formatter={(value: number) => [`${value.toFixed(1)}%`, 'Win Rate']}
+                labelFormatter={(symbol: string) => symbolLabel(symbol)}
               />
               <Bar dataKey="winRate" fill="hsl(var(--primary))" />
             </BarChart>
@@ -181,10 +239,11 @@ export function PerformanceChart({ trades, performance }: PerformanceChartProps)
               <Tooltip 
                 formatter={(value: number) => [`${value.toFixed(2)}%`, 'P&L']}
               />
-              <Bar 
-                dataKey="pnl" 
-                fill={(entry: any) => entry.pnl >= 0 ? 'hsl(var(--profit))' : 'hsl(var(--loss))'}
-              />
+              <Bar dataKey="pnl">
+                {dailyPnL.map((entry) => (
+                  <Cell key={entry.date} fill={entry.pnl >= 0 ? 'hsl(var(--profit))' : 'hsl(var(--loss))'} />
+                ))}
+              </Bar>
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
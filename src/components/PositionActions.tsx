@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, MoreHorizontal } from 'lucide-react';
+import { type TradeEntry } from '@/services/api';
+import { useCloseTrade, useSymbolCatalog, useUpdateTradeLevels } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import { markPrice, pnlAtPrice, rewardAtTarget, riskAtStop, validateTradeLevels } from '@/lib/positions';
+import { findSymbol, formatPrice as formatSymbolPrice } from '@/lib/symbols';
+
+interface PositionActionsProps {
+  traderId: string;
+  trade: TradeEntry;
+}
+
+type PositionAction = 'close' | 'partial' | 'levels';
+
+const PARTIAL_PRESETS = [25, 50, 75];
+
+const formatCurrency = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const pnlClass = (value: number) => (value > 0 ? 'text-profit' : value < 0 ? 'text-loss' : '');
+
+interface PreviewRow {
+  label: string;
+  before?: string;
+  after: string;
+  className?: string;
+}
+
+function PreviewTable({ rows, compare = false }: { rows: PreviewRow[]; compare?: boolean }) {
+  return (
+    <Table>
+      {compare && (
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead>Current</TableHead>
+            <TableHead>New</TableHead>
+          </TableRow>
+        </TableHeader>
+      )}
+      <TableBody>
+        {rows.map(row => (
+          <TableRow key={row.label}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            {compare && <TableCell className="text-muted-foreground">{row.before}</TableCell>}
+            <TableCell className={row.className}>{row.after}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function PositionActions({ traderId, trade }: PositionActionsProps) {
+  const [action, setAction] = useState<PositionAction | null>(null);
+  const [percent, setPercent] = useState('50');
+  const [stopLoss, setStopLoss] = useState('');
+  const [takeProfit, setTakeProfit] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const closeTrade = useCloseTrade();
+  const updateLevels = useUpdateTradeLevels();
+  const { toast } = useToast();
+  const { data: catalog = [] } = useSymbolCatalog();
+  const info = findSymbol(catalog, trade.symbol);
+  const formatPrice = (value: number) => formatSymbolPrice(value, info);
+
+  const price = markPrice(trade);
+  const label = `${trade.symbol} ${trade.side}`;
+  const pending = closeTrade.isPending || updateLevels.isPending;
+
+  const open = (next: PositionAction) => {
+    setPercent('50');
+    setStopLoss(formatPrice(trade.stop_loss));
+    setTakeProfit(formatPrice(trade.take_profit));
+    setAcknowledged(false);
+    setAction(next);
+  };
+
+  // Partial close preview
+  const fraction = parseFloat(percent) / 100;
+  const fractionValid = fraction > 0 && fraction < 1;
+  const closingQuantity = trade.quantity * (fractionValid ? fraction : 0);
+  const remainingQuantity = trade.quantity - closingQuantity;
+
+  // Stop/target preview
+  // A field left as pre-filled keeps the exact level, so editing one never moves the other
+  const levelInput = (text: string, current: number) => (text === formatPrice(current) ? current : parseFloat(text));
+  const levels = { stop_loss: levelInput(stopLoss, trade.stop_loss), take_profit: levelInput(takeProfit, trade.take_profit) };
+  const levelErrors = validateTradeLevels(trade, levels);
+  const currentRisk = riskAtStop(trade, trade.stop_loss);
+  const newRisk = riskAtStop(trade, levels.stop_loss);
+  const currentReward = rewardAtTarget(trade, trade.take_profit);
+  const newReward = rewardAtTarget(trade, levels.take_profit);
+  const increasesRisk = Object.keys(levelErrors).length === 0 && newRisk > currentRisk;
+  const levelsUnchanged = levels.stop_loss === trade.stop_loss && levels.take_profit === trade.take_profit;
+
+  const handleConfirm = async () => {
+    try {
+      if (action === 'levels') {
+        await updateLevels.mutateAsync({ traderId, tradeId: trade.trade_id, levels });
+        toast({
+          title: "Levels Updated",
+          description: `${label} now stops at ${formatPrice(levels.stop_loss)} and targets ${formatPrice(levels.take_profit)}.`,
+        });
+      } else {
+        await closeTrade.mutateAsync({
+          traderId,
+          tradeId: trade.trade_id,
+          fraction: action === 'partial' ? fraction : undefined,
+        });
+        toast({
+          title: action === 'partial' ? "Position Reduced" : "Position Closed",
+          description: action === 'partial'
+            ? `Closed ${percent}% of ${label} at market.`
+            : `${label} was closed at market.`,
+        });
+      }
+      setAction(null);
+    } catch (error) {
+      toast({
+        title: action === 'levels' ? "Update Failed" : "Close Failed",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDisabled = pending || (action === 'partial' && !fractionValid) || (action === 'levels' && (
+    Object.keys(levelErrors).length > 0 || levelsUnchanged || (increasesRisk && !acknowledged)
+  ));
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="Manage position">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => open('close')}>Close at Market</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => open('partial')}>Partial Close...</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => open('levels')}>Edit Stop / Target...</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(next) => !next && !pending && setAction(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {action === 'close' && `Close ${label}`}
+              {action === 'partial' && `Partially Close ${label}`}
+              {action === 'levels' && `Edit Stop and Target for ${label}`}
+            </DialogTitle>
+            <DialogDescription>
+              Prices are estimated from the last update (≈ {formatPrice(price)}); the backend fills at market.
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === 'close' && (
+            <PreviewTable
+              rows={[
+                { label: 'Quantity', after: trade.quantity.toFixed(4) },
+                { label: 'Entry price', after: formatPrice(trade.entry_price) },
+                {
+                  label: 'Estimated realized P&L',
+                  after: formatCurrency(pnlAtPrice(trade, price)),
+                  className: pnlClass(pnlAtPrice(trade, price)),
+                },
+                { label: 'Risk remaining', after: formatCurrency(0) },
+              ]}
+            />
+          )}
+
+          {action === 'partial' && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="partial-percent">Percentage to close</Label>
+                <div className="flex gap-2 mt-1">
+                  <Input
+                    id="partial-percent"
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={percent}
+                    onChange={(e) => setPercent(e.target.value)}
+                  />
+                  {PARTIAL_PRESETS.map(preset => (
+                    <Button key={preset} type="button" variant="outline" onClick={() => setPercent(String(preset))}>
+                      {preset}%
+                    </Button>
+                  ))}
+                </div>
+                {!fractionValid && (
+                  <p className="text-sm text-loss mt-1">Enter a percentage between 1 and 99, or close the whole position.</p>
+                )}
+              </div>
+              <PreviewTable
+                rows={[
+                  { label: 'Closing quantity', after: closingQuantity.toFixed(4) },
+                  { label: 'Remaining quantity', after: remainingQuantity.toFixed(4) },
+                  {
+                    label: 'Estimated realized P&L',
+                    after: formatCurrency(pnlAtPrice(trade, price, closingQuantity)),
+                    className: pnlClass(pnlAtPrice(trade, price, closingQuantity)),
+                  },
+                  {
+                    label: 'Risk remaining at stop',
+                    after: formatCurrency(riskAtStop(trade, trade.stop_loss, remainingQuantity)),
+                  },
+                ]}
+              />
+            </div>
+          )}
+
+          {action === 'levels' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="stop-loss">Stop Loss</Label>
+                  <Input
+                    id="stop-loss"
+                    type="number"
+                    step="any"
+                    className="mt-1"
+                    value={stopLoss}
+                    onChange={(e) => setStopLoss(e.target.value)}
+                  />
+                  {levelErrors.stop_loss && <p className="text-sm text-loss mt-1">{levelErrors.stop_loss}</p>}
+                </div>
+                <div>
+                  <Label htmlFor="take-profit">Take Profit</Label>
+                  <Input
+                    id="take-profit"
+                    type="number"
+                    step="any"
+                    className="mt-1"
+                    value={takeProfit}
+                    onChange={(e) => setTakeProfit(e.target.value)}
+                  />
+                  {levelErrors.take_profit && <p className="text-sm text-loss mt-1">{levelErrors.take_profit}</p>}
+                </div>
+              </div>
+              {Object.keys(levelErrors).length === 0 && (
+                <PreviewTable
+                  compare
+                  rows={[
+                    { label: 'Stop loss', before: formatPrice(trade.stop_loss), after: formatPrice(levels.stop_loss) },
+                    { label: 'Take profit', before: formatPrice(trade.take_profit), after: formatPrice(levels.take_profit) },
+                    {
+                      label: 'Loss if stopped',
+                      before: formatCurrency(currentRisk),
+                      after: formatCurrency(newRisk),
+                      className: increasesRisk ? 'text-loss font-semibold' : undefined,
+                    },
+                    { label: 'Gain at target', before: formatCurrency(currentReward), after: formatCurrency(newReward) },
+                  ]}
+                />
+              )}
+              {increasesRisk && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>This change increases risk</AlertTitle>
+                  <AlertDescription>
+                    <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                      <Checkbox
+                        checked={acknowledged}
+                        onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                      />
+                      I understand this position can now lose more before it is stopped out
+                    </label>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setAction(null)} disabled={pending}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant={action === 'levels' && !increasesRisk ? "default" : "destructive"}
+              onClick={handleConfirm}
+              disabled={confirmDisabled}
+            >
+              {pending
+                ? 'Applying...'
+                : action === 'close' ? 'Close Position' : action === 'partial' ? `Close ${percent}%` : 'Update Levels'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
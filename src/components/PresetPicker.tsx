@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Save, Trash2 } from 'lucide-react';
+import { type TraderSettings } from '@/services/api';
+import {
+  createPresetId,
+  loadPresets,
+  saveUserPresets,
+  serializePresets,
+  type TraderPreset,
+} from '@/services/presets';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/utils';
+
+interface PresetPickerProps {
+  settings: TraderSettings;
+  selectedId: string;
+  onSelect: (preset: TraderPreset) => void;
+}
+
+export function PresetPicker({ settings, selectedId, onSelect }: PresetPickerProps) {
+  const [presets, setPresets] = useState<TraderPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+  const { toast } = useToast();
+
+  const builtInPresets = presets.filter(p => p.builtIn);
+  const userPresets = presets.filter(p => !p.builtIn);
+  const selected = presets.find(p => p.id === selectedId);
+
+  const updatePresets = (next: TraderPreset[]) => {
+    saveUserPresets(next);
+    setPresets(next);
+  };
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onSelect(preset);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast({
+        title: "Validation Error",
+        description: "Preset name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Saving under an existing name replaces that preset
+    const existing = userPresets.find(p => p.name === name);
+    const preset: TraderPreset = { id: existing?.id ?? createPresetId(), name, settings };
+    updatePresets(existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset]);
+    setPresetName('');
+    onSelect(preset);
+    toast({
+      title: "Preset Saved",
+      description: `${name} is available the next time you create a trader.`,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    updatePresets(presets.filter(p => p.id !== selected.id));
+  };
+
+  const handleExport = () => {
+    if (userPresets.length === 0) {
+      toast({
+        title: "Nothing to Export",
+        description: "Save a preset first.",
+      });
+      return;
+    }
+    downloadFile(serializePresets(userPresets), 'trader_presets.json', 'application/json');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label>Preset</Label>
+          <Select value={selected ? selectedId : ''} onValueChange={handleSelect}>
+            <SelectTrigger className="mt-1">
+              <SelectValue placeholder="Custom configuration" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built-in</SelectLabel>
+                {builtInPresets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                ))}
+              </SelectGroup>
+              {userPresets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Saved</SelectLabel>
+                  {userPresets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        {selected && !selected.builtIn && (
+          <Button type="button" variant="outline" size="icon" onClick={handleDelete} title="Delete preset">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+        <Button type="button" variant="outline" size="icon" onClick={handleExport} title="Export saved presets">
+          <Download className="w-4 h-4" />
+        </Button>
+      </div>
+      {selected?.description && (
+        <p className="text-sm text-muted-foreground">{selected.description}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Save current settings as..."
+          onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleSave())}
+        />
+        <Button type="button" variant="outline" onClick={handleSave}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Preset
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderPlus, Plus, Trash2, X } from 'lucide-react';
+import { type RuleCondition, type RuleGroup, type RuleOperand, type TradingRules } from '@/services/api';
+import {
+  defaultCondition,
+  defaultRuleGroup,
+  describeRule,
+  INDICATOR_OPERANDS,
+  isRuleGroup,
+  MAX_RULE_DEPTH,
+  pruneRules,
+  RULE_OPERATORS,
+  RULE_SETS,
+  ruleErrorKey,
+  SETTING_OPERANDS,
+  type RuleNode,
+  type RuleOperator,
+} from '@/lib/rules';
+import { cn } from '@/lib/utils';
+
+interface RuleBuilderProps {
+  rules: TradingRules | undefined;
+  onChange: (rules: TradingRules | undefined) => void;
+  // Keyed by ruleErrorKey
+  errors?: Record<string, string>;
+}
+
+// Operands share one select; its values look like "indicator:rsi", "setting:rsi_oversold" or "value"
+const operandKey = (operand: RuleOperand) =>
+  operand.type === 'indicator' ? `indicator:${operand.field}` : operand.type === 'setting' ? `setting:${operand.key}` : 'value';
+
+function parseOperandKey(key: string, previous: RuleOperand): RuleOperand {
+  const [type, name] = key.split(':');
+  if (type === 'indicator') return { type: 'indicator', field: name };
+  if (type === 'setting') return { type: 'setting', key: name };
+  return { type: 'value', value: previous.type === 'value' ? previous.value : 0 };
+}
+
+function OperandInput({ operand, onChange, label }: { operand: RuleOperand; onChange: (operand: RuleOperand) => void; label: string }) {
+  return (
+    <div className="flex gap-1">
+      <Select value={operandKey(operand)} onValueChange={(key) => onChange(parseOperandKey(key, operand))}>
+        <SelectTrigger className="h-8 w-44" aria-label={label}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Indicators</SelectLabel>
+            {INDICATOR_OPERANDS.map(o => <SelectItem key={o.field} value={`indicator:${o.field}`}>{o.label}</SelectItem>)}
+          </SelectGroup>
+          <SelectGroup>
+            <SelectLabel>Settings</SelectLabel>
+            {SETTING_OPERANDS.map(o => <SelectItem key={o.key} value={`setting:${o.key}`}>{o.label}</SelectItem>)}
+          </SelectGroup>
+          <SelectItem value="value">Number</SelectItem>
+          {/* Saved by a newer dashboard or another client; kept until changed */}
+          {operand.type === 'indicator' && !INDICATOR_OPERANDS.some(o => o.field === operand.field) && (
+            <SelectItem value={operandKey(operand)} disabled>{operand.field}</SelectItem>
+          )}
+          {operand.type === 'setting' && !SETTING_OPERANDS.some(o => o.key === operand.key) && (
+            <SelectItem value={operandKey(operand)} disabled>{operand.key}</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {operand.type === 'value' && (
+        <Input
+          type="number"
+          step="any"
+          aria-label={`${label} value`}
+          value={Number.isNaN(operand.value) ? '' : operand.value}
+          onChange={(e) => onChange({ type: 'value', value: parseFloat(e.target.value) })}
+          className="h-8 w-28"
+        />
+      )}
+    </div>
+  );
+}
+
+function ConditionRow({ condition, onChange, onRemove, error }: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+  error?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <OperandInput label="Left operand" operand={condition.left} onChange={(left) => onChange({ ...condition, left })} />
+        <Select value={condition.operator} onValueChange={(operator) => onChange({ ...condition, operator: operator as RuleOperator })}>
+          <SelectTrigger className="h-8 w-16" aria-label="Comparison">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_OPERATORS.map(operator => <SelectItem key={operator} value={operator}>{operator}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <OperandInput label="Right operand" operand={condition.right} onChange={(right) => onChange({ ...condition, right })} />
+        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Remove condition" onClick={onRemove}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+interface RuleGroupEditorProps {
+  group: RuleGroup;
+  path: (string | number)[];
+  depth: number;
+  onChange: (group: RuleGroup) => void;
+  onRemove: () => void;
+  errors: Record<string, string>;
+}
+
+function RuleGroupEditor({ group, path, depth, onChange, onRemove, errors }: RuleGroupEditorProps) {
+  const error = errors[ruleErrorKey(path)];
+
+  const setNode = (index: number, node: RuleNode) =>
+    onChange({ ...group, conditions: group.conditions.map((n, i) => (i === index ? node : n)) });
+  const removeNode = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  return (
+    <div className={cn('space-y-3 rounded-md border p-3', depth > 1 && 'bg-muted/40', error && 'border-destructive')}>
+      <div className="flex items-center gap-2">
+        <Select value={group.combinator} onValueChange={(combinator) => onChange({ ...group, combinator: combinator as RuleGroup['combinator'] })}>
+          <SelectTrigger className="h-8 w-40" aria-label="Combine conditions with">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">All of (AND)</SelectItem>
+            <SelectItem value="or">Any of (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="ghost" size="icon" className="ml-auto h-8 w-8" title="Remove group" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {group.conditions.map((node, index) => {
+        const nodePath = [...path, 'conditions', index];
+        return isRuleGroup(node) ? (
+          <RuleGroupEditor
+            key={index}
+            group={node}
+            path={nodePath}
+            depth={depth + 1}
+            onChange={(next) => setNode(index, next)}
+            onRemove={() => removeNode(index)}
+            errors={errors}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            onChange={(next) => setNode(index, next)}
+            onRemove={() => removeNode(index)}
+            error={errors[ruleErrorKey(nodePath)]}
+          />
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultCondition()] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_RULE_DEPTH && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultRuleGroup()] })}
+          >
+            <FolderPlus className="w-4 h-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// One editor per rule set; a set left empty keeps the strategy's own behaviour for that side
+export function RuleBuilder({ rules, onChange, errors = {} }: RuleBuilderProps) {
+  const setRule = (key: keyof TradingRules, group: RuleGroup | undefined) =>
+    onChange(pruneRules({ ...rules, [key]: group }));
+
+  return (
+    <div className="space-y-6">
+      {RULE_SETS.map(set => {
+        const group = rules?.[set.key];
+        return (
+          <div key={set.key} className="space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium">{set.label}</div>
+                <p className="text-xs text-muted-foreground">{set.description}</p>
+              </div>
+              {!group && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setRule(set.key, defaultRuleGroup())}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Rule
+                </Button>
+              )}
+            </div>
+            {group && (
+              <>
+                <RuleGroupEditor
+                  group={group}
+                  path={['rules', set.key]}
+                  depth={1}
+                  onChange={(next) => setRule(set.key, next)}
+                  onRemove={() => setRule(set.key, undefined)}
+                  errors={errors}
+                />
+                {group.conditions.length > 0 && (
+                  <p className="text-xs text-muted-foreground font-mono">{describeRule(group)}</p>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Read-only text of each rule set that is in use
+export function RuleSummary({ rules }: { rules: TradingRules | undefined }) {
+  return (
+    <div className="space-y-3">
+      {RULE_SETS.filter(set => rules?.[set.key]).map(set => (
+        <div key={set.key}>
+          <div className="text-sm font-medium">{set.label}</div>
+          <p className="text-sm text-muted-foreground font-mono">{describeRule(rules[set.key])}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
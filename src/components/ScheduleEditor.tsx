@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarOff, X } from 'lucide-react';
+import { type TradingSchedule } from '@/services/api';
+import { cn } from '@/lib/utils';
+import {
+  defaultSchedule,
+  describeSchedule,
+  hoursToWindows,
+  localTimeZone,
+  WEEKDAYS,
+  windowsToHours,
+} from '@/lib/schedule';
+
+interface ScheduleEditorProps {
+  schedule: TradingSchedule | undefined;
+  onChange: (schedule: TradingSchedule) => void;
+  error?: string;
+}
+
+// Monday first, the way trading weeks are usually read
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Older browsers can't list zones; free text is still validated when the config is reviewed
+const TIME_ZONES: string[] =
+  (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ??
+  ['UTC', 'America/New_York', 'Europe/London', 'Asia/Tokyo'];
+
+export function ScheduleEditor({ schedule, onChange, error }: ScheduleEditorProps) {
+  // Painting: dragging across the grid applies the value of the first cell clicked
+  const [paintValue, setPaintValue] = useState<boolean | null>(null);
+  const current = schedule ?? { ...defaultSchedule(), enabled: false };
+
+  useEffect(() => {
+    if (paintValue === null) return;
+    const stop = () => setPaintValue(null);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [paintValue]);
+
+  const update = (patch: Partial<TradingSchedule>) => onChange({ ...current, ...patch });
+
+  const setHour = (day: number, hour: number, on: boolean) => {
+    const hours = windowsToHours(current.windows, day);
+    if (hours[hour] === on) return;
+    hours[hour] = on;
+    update({ windows: [...current.windows.filter(w => w.day !== day), ...hoursToWindows(hours, day)] });
+  };
+
+  const blackoutDates = current.blackout_dates.map(date => parseISO(date));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="schedule-enabled">Run on a schedule</Label>
+          <p className="text-sm text-muted-foreground">
+            The backend starts and stops the trader at these times. Starting by hand lasts until the next change; stopping by hand or with the kill switch lasts until the trader is started again.
+          </p>
+        </div>
+        <Switch
+          id="schedule-enabled"
+          checked={current.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+
+      {current.enabled && (
+        <>
+          <div className="max-w-sm">
+            <Label htmlFor="schedule-timezone">Time Zone</Label>
+            <Input
+              id="schedule-timezone"
+              className="mt-1"
+              list="schedule-timezones"
+              value={current.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              placeholder={localTimeZone()}
+            />
+            <datalist id="schedule-timezones">
+              {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+          </div>
+
+          <div className="overflow-x-auto select-none">
+            <div className="inline-grid gap-px" style={{ gridTemplateColumns: `3rem repeat(24, 1.25rem)` }}>
+              <div />
+              {HOURS.map(hour => (
+                <div key={hour} className="text-[10px] text-muted-foreground text-center">
+                  {hour % 3 === 0 ? hour : ''}
+                </div>
+              ))}
+              {DAY_ORDER.map(day => {
+                const hours = windowsToHours(current.windows, day);
+                return [
+                  <div key={`label-${day}`} className="text-xs font-medium pr-2 flex items-center">
+                    {WEEKDAYS[day].slice(0, 3)}
+                  </div>,
+                  ...HOURS.map(hour => (
+                    <button
+                      key={`${day}-${hour}`}
+                      type="button"
+                      aria-label={`${WEEKDAYS[day]} ${hour}:00`}
+                      aria-pressed={hours[hour]}
+                      className={cn(
+                        'h-6 rounded-sm border',
+                        hours[hour] ? 'bg-primary border-primary' : 'bg-muted hover:bg-muted-foreground/20'
+                      )}
+                      onMouseDown={() => {
+                        setPaintValue(!hours[hour]);
+                        setHour(day, hour, !hours[hour]);
+                      }}
+                      onMouseEnter={() => paintValue !== null && setHour(day, hour, paintValue)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ' ') {
+                          e.preventDefault();
+                          setHour(day, hour, !hours[hour]);
+                        }
+                      }}
+                    />
+                  )),
+                ];
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Click or drag across hours to switch them on or off. {describeSchedule(current)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Blackout Dates</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button type="button" variant="outline" size="sm">
+                    <CalendarOff className="w-4 h-4 mr-2" />
+                    Choose Dates
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="multiple"
+                    selected={blackoutDates}
+                    onSelect={(dates) => update({
+                      blackout_dates: (dates ?? []).map(date => format(date, 'yyyy-MM-dd')).sort(),
+                    })}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            {current.blackout_dates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No blackout dates; the weekly windows always apply.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {current.blackout_dates.map(date => (
+                  <Badge key={date} variant="outline" className="gap-1">
+                    {date}
+                    <X
+                      className="w-3 h-3 cursor-pointer"
+                      onClick={() => update({ blackout_dates: current.blackout_dates.filter(d => d !== date) })}
+                    />
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type StrategyDefinition, type StrategyParameter, type TraderSettings } from '@/services/api';
+import {
+  formatParameterValue,
+  groupParameters,
+  parameterPath,
+  parameterValue,
+  toPercent,
+  type ParameterValue,
+} from '@/lib/strategies';
+
+interface StrategySelectProps {
+  strategies: StrategyDefinition[];
+  value: string;
+  onChange: (strategy: StrategyDefinition) => void;
+}
+
+export function StrategySelect({ strategies, value, onChange }: StrategySelectProps) {
+  const selected = strategies.find(strategy => strategy.id === value);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="trader-strategy">Strategy</Label>
+      <Select
+        value={value}
+        onValueChange={(id) => {
+          const strategy = strategies.find(s => s.id === id);
+          if (strategy) onChange(strategy);
+        }}
+      >
+        <SelectTrigger id="trader-strategy">
+          <SelectValue placeholder="Select a strategy" />
+        </SelectTrigger>
+        <SelectContent>
+          {strategies.map(strategy => (
+            <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+          ))}
+          {!selected && <SelectItem value={value} disabled>{value} (no longer offered)</SelectItem>}
+        </SelectContent>
+      </Select>
+      {selected?.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+    </div>
+  );
+}
+
+interface StrategyParameterFieldsProps {
+  definition: StrategyDefinition;
+  settings: TraderSettings;
+  // Leave out for a read-only view
+  onChange?: (param: StrategyParameter, value: ParameterValue) => void;
+  // Keyed by parameterPath
+  errors?: Record<string, string>;
+}
+
+function parseInput(param: StrategyParameter, input: string) {
+  const parsed = param.type === 'integer' ? parseInt(input) : parseFloat(input);
+  return param.type === 'percent' ? parsed / 100 : parsed;
+}
+
+// One input per parameter, laid out by the definition's groups; nothing here knows any particular strategy
+export function StrategyParameterFields({ definition, settings, onChange, errors = {} }: StrategyParameterFieldsProps) {
+  if (definition.parameters.length === 0) {
+    return <p className="text-sm text-muted-foreground">This strategy has no parameters.</p>;
+  }
+
+  const renderParameter = (param: StrategyParameter) => {
+    const id = `strategy-${param.key}`;
+    const value = parameterValue(settings, param);
+    const error = errors[parameterPath(param)];
+
+    if (!onChange) {
+      return (
+        <div key={param.key}>
+          <Label htmlFor={id} className="text-sm">{param.label}</Label>
+          <Input id={id} value={formatParameterValue(param, value)} readOnly className="mt-1" title={param.help} />
+        </div>
+      );
+    }
+
+    return (
+      <div key={param.key}>
+        {param.type === 'boolean' ? (
+          <div className="flex items-center gap-2 h-full pt-6">
+            <Switch id={id} checked={value === true} onCheckedChange={(checked) => onChange(param, checked)} />
+            <Label htmlFor={id} className="text-sm">{param.label}</Label>
+          </div>
+        ) : (
+          <>
+            <Label htmlFor={id} className="text-sm">{param.label}{param.type === 'percent' ? ' (%)' : ''}</Label>
+            <Input
+              id={id}
+              type="number"
+              step={param.type === 'percent' ? toPercent(param.step ?? 0.001) : param.step ?? (param.type === 'integer' ? 1 : 'any')}
+              min={param.min === undefined ? undefined : param.type === 'percent' ? toPercent(param.min) : param.min}
+              max={param.max === undefined ? undefined : param.type === 'percent' ? toPercent(param.max) : param.max}
+              value={typeof value !== 'number' || Number.isNaN(value) ? '' : param.type === 'percent' ? toPercent(value) : value}
+              onChange={(e) => onChange(param, parseInput(param, e.target.value))}
+              className={`mt-1 ${error ? 'border-destructive' : ''}`}
+            />
+          </>
+        )}
+        {error ? (
+          <p className="text-xs text-destructive mt-1">{error}</p>
+        ) : param.help && (
+          <p className="text-xs text-muted-foreground mt-1">{param.help}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {groupParameters(definition).map(group => (
+        <div key={group.name} className="space-y-2">
+          <div className="text-sm font-medium">{group.name}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {group.parameters.map(renderParameter)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RotateCcw } from 'lucide-react';
+import { type TraderSettings } from '@/services/api';
+import { formatSettingValue, OVERRIDE_FIELDS, type SettingField } from '@/lib/trader-config';
+import {
+  effectiveSettings,
+  isOverridden,
+  overrideErrorKey,
+  pruneOverrides,
+  setOverride,
+  symbolOverride,
+  type OverridableKey,
+  type SymbolOverrides,
+} from '@/lib/symbol-overrides';
+import { usesClassicStrategy } from '@/lib/strategies';
+import { cn } from '@/lib/utils';
+
+interface SymbolOverridesGridProps {
+  settings: TraderSettings;
+  // Leave out for a read-only view of the effective values
+  onChange?: (overrides: SymbolOverrides | undefined) => void;
+  // Keyed by overrideErrorKey
+  errors?: Record<string, string>;
+}
+
+// Fractions are typed as percentages; round away float noise such as 0.07 * 100
+const displayValue = (field: SettingField, value: number) =>
+  field.unit === 'percent' ? Number((value * 100).toFixed(4)) : value;
+
+function parseCell(field: SettingField, input: string) {
+  if (input.trim() === '') return undefined;
+  const parsed = field.integer ? parseInt(input) : parseFloat(input);
+  return field.unit === 'percent' ? parsed / 100 : parsed;
+}
+
+// Symbol x setting grid; empty cells inherit the trader-wide value, shown as the placeholder
+export function SymbolOverridesGrid({ settings, onChange, errors = {} }: SymbolOverridesGridProps) {
+  // Indicator overrides only mean something to the strategy that reads those indicators
+  const fields = usesClassicStrategy(settings) ? OVERRIDE_FIELDS : OVERRIDE_FIELDS.filter(field => field.group === 'risk');
+  const overrideErrors = settings.symbols.flatMap(symbol =>
+    fields.map(field => errors[overrideErrorKey(symbol, field.key as OverridableKey)]).filter(Boolean));
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Symbol</TableHead>
+            {fields.map(field => (
+              <TableHead key={field.key} className="whitespace-nowrap">{field.label}</TableHead>
+            ))}
+            {onChange && <TableHead />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {settings.symbols.map(symbol => {
+            const effective = effectiveSettings(settings, symbol);
+            const hasOverrides = Object.keys(symbolOverride(settings, symbol)).length > 0;
+            return (
+              <TableRow key={symbol}>
+                <TableCell className="font-medium">{symbol}</TableCell>
+                {fields.map(field => {
+                  const key = field.key as OverridableKey;
+                  const overridden = isOverridden(settings, symbol, key);
+                  const error = errors[overrideErrorKey(symbol, key)];
+                  return (
+                    <TableCell key={key} className="py-2">
+                      {onChange ? (
+                        <Input
+                          type="number"
+                          step={field.step ?? 1}
+                          aria-label={`${symbol} ${field.label}`}
+                          value={overridden ? displayValue(field, effective[key]) : ''}
+                          placeholder={String(displayValue(field, settings[key]))}
+                          title={error ?? (overridden
+                            ? `Overrides the trader-wide ${formatSettingValue(field, settings[key])}`
+                            : 'Inherited; type a value to override it for this symbol')}
+                          onChange={(e) => onChange(
+                            setOverride(settings.symbol_overrides, settings.symbols, symbol, key, parseCell(field, e.target.value)),
+                          )}
+                          className={cn(
+                            'h-8 w-24',
+                            overridden && 'border-primary bg-primary/5 font-medium',
+                            error && 'border-destructive',
+                          )}
+                        />
+                      ) : (
+                        <span
+                          className={overridden ? 'font-semibold text-primary' : 'text-muted-foreground'}
+                          title={overridden ? `Trader-wide: ${formatSettingValue(field, settings[key])}` : 'Inherited'}
+                        >
+                          {formatSettingValue(field, effective[key])}
+                        </span>
+                      )}
+                    </TableCell>
+                  );
+                })}
+                {onChange && (
+                  <TableCell className="py-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title={`Reset ${symbol} to the trader-wide settings`}
+                      disabled={!hasOverrides}
+                      onClick={() => onChange(pruneOverrides(
+                        { ...settings.symbol_overrides, [symbol]: {} },
+                        settings.symbols,
+                      ))}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        {onChange
+          ? 'Empty cells inherit the trader-wide value shown in grey; highlighted cells override it for that symbol.'
+          : 'Highlighted values override the trader-wide setting for that symbol; the rest are inherited.'}
+      </p>
+      {overrideErrors.map(message => (
+        <p key={message} className="text-xs text-destructive">{message}</p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { type SymbolInfo } from '@/services/api';
+import { useSymbolCatalog } from '@/hooks/use-trading-queries';
+import { DELISTED, findSymbol, isTradable, symbolProblem } from '@/lib/symbols';
+import { cn } from '@/lib/utils';
+
+interface SymbolPickerProps {
+  value: string[];
+  onChange: (symbols: string[]) => void;
+}
+
+const describeLimits = (info: SymbolInfo) =>
+  `Tick ${info.tick_size} · min qty ${info.min_quantity} · up to ${info.max_leverage}x`;
+
+// Free-text entry for backends that don't publish a symbol catalog
+function ManualSymbolInput({ value, onChange }: SymbolPickerProps) {
+  const [newSymbol, setNewSymbol] = useState('');
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (symbol && !value.includes(symbol)) onChange([...value, symbol]);
+    setNewSymbol('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={newSymbol}
+          onChange={(e) => setNewSymbol(e.target.value)}
+          placeholder="BTCUSDT"
+          onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addSymbol())}
+        />
+        <Button type="button" onClick={addSymbol}>Add</Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The backend did not provide a symbol list, so symbols are not checked against the exchange.
+      </p>
+    </div>
+  );
+}
+
+// Searchable multi-select over the exchange catalog; delisted pairs are shown but can't be picked
+export function SymbolPicker({ value, onChange }: SymbolPickerProps) {
+  const { data: catalog, isLoading, isError } = useSymbolCatalog();
+  const [open, setOpen] = useState(false);
+
+  const toggle = (symbol: string) => {
+    onChange(value.includes(symbol) ? value.filter(s => s !== symbol) : [...value, symbol]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isError ? (
+        <ManualSymbolInput value={value} onChange={onChange} />
+      ) : (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              role="combobox"
+              aria-expanded={open}
+              disabled={isLoading}
+              className="w-full justify-between font-normal"
+            >
+              {isLoading ? 'Loading symbols...' : value.length > 0 ? `${value.length} selected` : 'Select symbols...'}
+              <ChevronsUpDown className="w-4 h-4 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+            <Command>
+              <CommandInput placeholder="Search symbol or asset" />
+              <CommandList>
+                <CommandEmpty>No listed symbol matches.</CommandEmpty>
+                <CommandGroup>
+                  {catalog?.map(info => (
+                    <CommandItem
+                      key={info.symbol}
+                      value={info.symbol}
+                      keywords={[info.base_asset, info.quote_asset]}
+                      disabled={info.status === DELISTED}
+                      onSelect={() => toggle(info.symbol)}
+                    >
+                      <Check className={cn('mr-2 h-4 w-4', value.includes(info.symbol) ? 'opacity-100' : 'opacity-0')} />
+                      <span className="font-medium">{info.symbol}</span>
+                      <span className="ml-2 text-xs text-muted-foreground">{info.base_asset}/{info.quote_asset}</span>
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {isTradable(info) ? `up to ${info.max_leverage}x` : info.status.toLowerCase()}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {value.map(symbol => {
+          const info = catalog ? findSymbol(catalog, symbol) : undefined;
+          const problem = catalog ? symbolProblem(catalog, symbol) : undefined;
+          return (
+            <Badge
+              key={symbol}
+              variant={problem ? "destructive" : "outline"}
+              className="gap-1"
+              title={problem ?? (info ? describeLimits(info) : undefined)}
+            >
+              {symbol}
+              {info && !problem && !isTradable(info) && (
+                <span className="text-muted-foreground">({info.status.toLowerCase()})</span>
+              )}
+              <X className="w-3 h-3 cursor-pointer" onClick={() => onChange(value.filter(s => s !== symbol))} />
+            </Badge>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
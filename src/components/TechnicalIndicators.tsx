@@ -1,57 +1,29 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { tradingAPI } from '@/services/api';
+import { useTechnicalIndicators, useTraderStatus } from '@/hooks/use-trading-queries';
+import { effectiveSettings } from '@/lib/symbol-overrides';
+import { ContractMismatchPanel } from './ContractMismatchPanel';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
 interface TechnicalIndicatorsProps {
   traderId: string;
 }
 
-interface IndicatorData {
-  symbol: string;
-  price: number;
-  rsi: number;
-  bollinger_upper: number;
-  bollinger_lower: number;
-  bollinger_middle: number;
-  ma_short: number;
-  ma_long: number;
-  volume: number;
-  volume_avg: number;
-  signal: 'BUY' | 'SELL' | 'HOLD';
-  signal_strength: number;
-  last_updated: string;
-}
-
 export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
-  const [selectedSymbol, setSelectedSymbol] = useState<string>('BTCUSDT');
-  const [indicators, setIndicators] = useState<IndicatorData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [symbols] = useState(['BTCUSDT', 'ETHUSDT', 'ADAUSDT', 'DOTUSDT', 'LINKUSDT']);
-
-  useEffect(() => {
-    loadIndicators();
-    const interval = setInterval(loadIndicators, 10000); // Update every 10 seconds
-    return () => clearInterval(interval);
-  }, [selectedSymbol, traderId]);
-
-  const loadIndicators = async () => {
-    setLoading(true);
-    try {
-      const data = await tradingAPI.getTechnicalIndicators(traderId, selectedSymbol);
-      setIndicators(data);
-    } catch (error) {
-      console.error('Error loading indicators:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { data: status } = useTraderStatus(traderId);
+  const symbols = status?.config.symbols ?? [];
+  const [selected, setSelectedSymbol] = useState<string>();
+  // Follow config edits: a symbol the trader no longer watches falls back to its first one
+  const selectedSymbol = selected && symbols.includes(selected) ? selected : symbols[0] ?? '';
+  const { data: indicators = null, isLoading: loading, error } = useTechnicalIndicators(traderId, selectedSymbol);
+  // The symbol's own periods and thresholds when it overrides the trader's
+  const settings = status ? effectiveSettings(status.config, selectedSymbol) : undefined;
 
   const getRSIStatus = (rsi: number) => {
-    if (rsi >= 70) return { status: 'Overbought', color: 'bg-loss text-white' };
-    if (rsi <= 30) return { status: 'Oversold', color: 'bg-profit text-white' };
+    if (rsi >= (settings?.rsi_overbought ?? 70)) return { status: 'Overbought', color: 'bg-loss text-white' };
+    if (rsi <= (settings?.rsi_oversold ?? 30)) return { status: 'Oversold', color: 'bg-profit text-white' };
     return { status: 'Neutral', color: 'bg-neutral text-white' };
   };
 
@@ -86,6 +58,10 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
     );
   };
 
+  const maStatus = indicators
+    ? getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long)
+    : null;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -109,6 +85,8 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
         )}
       </div>
 
+      <ContractMismatchPanel errors={[error]} />
+
       {loading && (
         <div className="text-center py-8 text-muted-foreground">
           Loading indicators...
@@ -136,8 +114,10 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
           {/* RSI */}
           <Card>
             <CardHeader>
-              <CardTitle>RSI (14)</CardTitle>
-              <CardDescription>Relative Strength Index</CardDescription>
+              <CardTitle>RSI ({settings?.rsi_period ?? 14})</CardTitle>
+              <CardDescription>
+                Relative Strength Index{settings && ` · ${settings.rsi_oversold}/${settings.rsi_overbought}`}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
@@ -161,7 +141,9 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
           <Card>
             <CardHeader>
               <CardTitle>Moving Averages</CardTitle>
-              <CardDescription>MA Cross Analysis</CardDescription>
+              <CardDescription>
+                MA Cross Analysis{settings && ` · ${settings.ma_short}/${settings.ma_long}`}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -176,9 +158,9 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
               </div>
               
               <div className="mt-2">
-                <Badge className={getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).color}>
-                  <getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).icon className="w-3 h-3 mr-1" />
-                  {getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).status}
+                <Badge className={maStatus.color}>
+                  <maStatus.icon className="w-3 h-3 mr-1" />
+                  {maStatus.status}
                 </Badge>
               </div>
             </CardContent>
@@ -188,7 +170,9 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
           <Card>
             <CardHeader>
               <CardTitle>Bollinger Bands</CardTitle>
-              <CardDescription>Price vs Bands</CardDescription>
+              <CardDescription>
+                Price vs Bands{settings && ` · ${settings.bollinger_period}, ${settings.bollinger_std}σ`}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -261,21 +245,21 @@ export function TechnicalIndicators({ traderId }: TechnicalIndicatorsProps) {
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm">RSI:</span>
-                  <Badge size="sm" className={getRSIStatus(indicators.rsi).color}>
+                  <Badge className={getRSIStatus(indicators.rsi).color}>
                     {getRSIStatus(indicators.rsi).status}
                   </Badge>
                 </div>
                 
                 <div className="flex items-center justify-between">
                   <span className="text-sm">MA Trend:</span>
-                  <Badge size="sm" className={getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).color}>
+                  <Badge className={getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).color}>
                     {getMAStatus(indicators.price, indicators.ma_short, indicators.ma_long).status}
                   </Badge>
                 </div>
                 
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Bollinger:</span>
-                  <Badge size="sm" className={getBollingerStatus(
+                  <Badge className={getBollingerStatus(
                     indicators.price, 
                     indicators.bollinger_upper, 
                     indicators.bollinger_lower,
@@ -1,3 +1,4 @@
+import { type ReactNode } from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { type TradeEntry } from '@/services/api';
@@ -7,9 +8,11 @@ import { TrendingUp, TrendingDown } from 'lucide-react';
 interface TradeHistoryProps {
   trades: TradeEntry[];
   showStatus?: boolean;
+  // Per-row controls, rendered in an extra column when provided
+  renderActions?: (trade: TradeEntry) => ReactNode;
 }
 
-export function TradeHistory({ trades, showStatus = true }: TradeHistoryProps) {
+export function TradeHistory({ trades, showStatus = true, renderActions }: TradeHistoryProps) {
   const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
   const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
@@ -68,12 +71,18 @@ export function TradeHistory({ trades, showStatus = true }: TradeHistoryProps) {
             <TableHead>Drawdown</TableHead>
             {showStatus && <TableHead>Status</TableHead>}
             <TableHead>Time</TableHead>
+            {renderActions && <TableHead className="text-right">Actions</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {trades.map((trade) => (
             <TableRow key={trade.trade_id}>
-              <TableCell className="font-medium">{trade.symbol}</TableCell>
+              <TableCell className="font-medium">
+                {trade.symbol}
+                {trade.source === 'MANUAL' && (
+                  <Badge variant="outline" className="ml-2">Manual</Badge>
+                )}
+              </TableCell>
               <TableCell>{getSideBadge(trade.side)}</TableCell>
               <TableCell>{formatCurrency(trade.entry_price)}</TableCell>
               <TableCell>{trade.quantity.toFixed(4)}</TableCell>
@@ -93,6 +102,9 @@ export function TradeHistory({ trades, showStatus = true }: TradeHistoryProps) {
               <TableCell className="text-muted-foreground">
                 {formatDistanceToNow(new Date(trade.timestamp), { addSuffix: true })}
               </TableCell>
+              {renderActions && (
+                <TableCell className="text-right">{renderActions(trade)}</TableCell>
+              )}
             </TableRow>
           ))}
         </TableBody>
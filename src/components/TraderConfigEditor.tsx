@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { type TraderSettings } from '@/services/api';
+import { useStrategies, useSymbolCatalog, useUpdateTraderConfig } from '@/hooks/use-trading-queries';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+import {
+  diffTraderSettings,
+  SETTING_FIELDS,
+  validateTraderSettings,
+  type SettingChange,
+  type SettingField,
+} from '@/lib/trader-config';
+import {
+  CLASSIC_STRATEGY,
+  findStrategy,
+  selectStrategy,
+  traderStrategyId,
+  validateStrategySettings,
+  withParameterValue,
+} from '@/lib/strategies';
+import { inheritingSymbols, pruneOverrides } from '@/lib/symbol-overrides';
+import { maxLeverageFor, validateSymbolSettings } from '@/lib/symbols';
+import { isSwitchToLive, traderMode } from '@/lib/trading-mode';
+import { ConfirmConfigChangeDialog } from './ConfigDiff';
+import { RuleBuilder } from './RuleBuilder';
+import { ScheduleEditor } from './ScheduleEditor';
+import { StrategyParameterFields, StrategySelect } from './StrategyFields';
+import { SymbolOverridesGrid } from './SymbolOverrides';
+import { SymbolPicker } from './SymbolPicker';
+import { LiveModeConfirmDialog, TradingModePicker } from './TradingMode';
+import { TraderOrganizationFields } from './TraderOrganization';
+
+interface TraderConfigEditorProps {
+  traderId: string;
+  traderName: string;
+  settings: TraderSettings;
+  onDone: () => void;
+}
+
+const UNIT_SUFFIX: Record<NonNullable<SettingField['unit']>, string> = {
+  percent: ' (%)',
+  leverage: ' (x)',
+  minutes: ' (minutes)',
+};
+
+export function TraderConfigEditor({ traderId, traderName, settings, onDone }: TraderConfigEditorProps) {
+  const [draft, setDraft] = useState<TraderSettings>(settings);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [changes, setChanges] = useState<SettingChange[] | null>(null);
+  const [confirmingLive, setConfirmingLive] = useState(false);
+  const updateConfig = useUpdateTraderConfig();
+  const { data: catalog } = useSymbolCatalog();
+  const { data: strategies = [CLASSIC_STRATEGY] } = useStrategies();
+  const strategy = findStrategy(strategies, traderStrategyId(draft));
+  const { toast } = useToast();
+
+  const updateField = (field: SettingField, input: string) => {
+    const parsed = field.integer ? parseInt(input) : parseFloat(input);
+    setDraft({ ...draft, [field.key]: field.unit === 'percent' ? parsed / 100 : parsed });
+  };
+
+  const displayValue = (field: SettingField) => {
+    const value = draft[field.key];
+    if (Number.isNaN(value)) return '';
+    // Round away float noise such as 0.07 * 100 = 7.000000000000001
+    return field.unit === 'percent' ? Number((value * 100).toFixed(4)) : value;
+  };
+
+  const handleReview = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // A field's own range error replaces any catalog problem with it, since it has to be fixed first
+    const validationErrors = {
+      ...(catalog ? validateSymbolSettings(draft, catalog) : {}),
+      ...(strategy ? validateStrategySettings(draft, strategy) : {}),
+      ...validateTraderSettings(draft),
+    };
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      toast({
+        title: "Validation Error",
+        description: Object.values(validationErrors)[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const diff = diffTraderSettings(settings, draft, strategies);
+    if (diff.length === 0) {
+      toast({
+        title: "No Changes",
+        description: "The configuration is identical to the one currently running.",
+      });
+      return;
+    }
+    setChanges(diff);
+  };
+
+  const handleApply = async () => {
+    // Going live gets its own typed confirmation after the diff has been reviewed
+    if (isSwitchToLive(settings, draft) && !confirmingLive) {
+      setConfirmingLive(true);
+      return;
+    }
+    try {
+      await updateConfig.mutateAsync({ traderId, settings: draft });
+      toast({
+        title: "Configuration Updated",
+        description: `${changes?.length} setting${changes?.length === 1 ? '' : 's'} changed. New trades use the updated configuration.`,
+      });
+      setChanges(null);
+      setConfirmingLive(false);
+      onDone();
+    } catch (error) {
+      toast({
+        title: "Failed to update configuration",
+        description: getErrorMessage(error, "Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const leverageLimit = catalog ? maxLeverageFor(catalog, inheritingSymbols(draft, 'leverage')) : undefined;
+
+  const renderFields = (group: SettingField['group']) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {SETTING_FIELDS.filter(field => field.group === group).map(field => (
+        <div key={field.key}>
+          <Label htmlFor={`edit-${field.key}`} className="text-sm">
+            {field.label}{field.unit ? UNIT_SUFFIX[field.unit] : ''}
+          </Label>
+          <Input
+            id={`edit-${field.key}`}
+            type="number"
+            step={field.step ?? 1}
+            value={displayValue(field)}
+            onChange={(e) => updateField(field, e.target.value)}
+            className={`mt-1 ${errors[field.key] ? 'border-destructive' : ''}`}
+          />
+          {errors[field.key] ? (
+            <p className="text-xs text-destructive mt-1">{errors[field.key]}</p>
+          ) : field.key === 'leverage' && leverageLimit && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {leverageLimit.symbol} allows up to {leverageLimit.leverage}x
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <>
+      <form onSubmit={handleReview} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Trading Mode</CardTitle>
+            <CardDescription>Whether this trader simulates its orders or trades real funds</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TradingModePicker value={traderMode(draft)} onChange={(mode) => setDraft({ ...draft, mode })} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Trading Configuration</CardTitle>
+            <CardDescription>Changes apply to new trades; open positions keep their settings</CardDescription>
+          </CardHeader>
+          <CardContent>{renderFields('risk')}</CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Strategy</CardTitle>
+            <CardDescription>What decides when to trade, and its parameters</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <StrategySelect
+              strategies={strategies}
+              value={traderStrategyId(draft)}
+              onChange={(definition) => setDraft(selectStrategy(draft, definition))}
+            />
+            {strategy ? (
+              <StrategyParameterFields
+                definition={strategy}
+                settings={draft}
+                errors={errors}
+                onChange={(param, value) => setDraft(withParameterValue(draft, param, value))}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The backend no longer offers this strategy; its saved parameters are kept until you pick another one.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Entry & Exit Rules</CardTitle>
+            <CardDescription>Conditions on indicator readings that replace or add to the strategy's signals</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RuleBuilder rules={draft.rules} errors={errors} onChange={(rules) => setDraft({ ...draft, rules })} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Trading Symbols</CardTitle>
+            <CardDescription>Symbols the trader monitors, and any settings a symbol overrides</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <SymbolPicker
+              value={draft.symbols}
+              onChange={(symbols) => setDraft({
+                ...draft,
+                symbols,
+                symbol_overrides: pruneOverrides(draft.symbol_overrides, symbols),
+              })}
+            />
+            {errors.symbols && <p className="text-xs text-destructive">{errors.symbols}</p>}
+            {draft.symbols.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Per-symbol overrides</div>
+                <SymbolOverridesGrid
+                  settings={draft}
+                  errors={errors}
+                  onChange={(overrides) => setDraft({ ...draft, symbol_overrides: overrides })}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Organization</CardTitle>
+            <CardDescription>How this trader is grouped and found in the trader list</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TraderOrganizationFields
+              group={draft.group}
+              tags={draft.tags}
+              onChange={(organization) => setDraft({ ...draft, ...organization })}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Trading Schedule</CardTitle>
+            <CardDescription>Weekly session windows and blackout dates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScheduleEditor
+              schedule={draft.schedule}
+              onChange={(schedule) => setDraft({ ...draft, schedule })}
+              error={errors.schedule}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button type="submit">Review Changes</Button>
+        </div>
+      </form>
+
+      <ConfirmConfigChangeDialog
+        changes={confirmingLive ? null : changes}
+        title="Review Configuration Changes"
+        description="The running trader picks up these settings as soon as they are applied."
+        confirmLabel="Apply Changes"
+        pending={updateConfig.isPending}
+        onConfirm={handleApply}
+        onCancel={() => setChanges(null)}
+      />
+
+      <LiveModeConfirmDialog
+        open={confirmingLive}
+        traderName={traderName}
+        action="switch"
+        pending={updateConfig.isPending}
+        onConfirm={handleApply}
+        onCancel={() => setConfirmingLive(false)}
+      />
+    </>
+  );
+}
@@ -1,68 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Download, RefreshCw } from 'lucide-react';
-import { tradingAPI } from '@/services/api';
+import { Download, Pencil, RefreshCw } from 'lucide-react';
+import { useExportTrades, useStrategies, useTraderStatus } from '@/hooks/use-trading-queries';
+import { usePermissions } from '@/hooks/use-permissions';
 import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage, isContractError } from '@/services/errors';
+import { ContractMismatchPanel } from './ContractMismatchPanel';
+import { ConfigHistory } from './ConfigHistory';
+import { TraderConfigEditor } from './TraderConfigEditor';
+import { SymbolOverridesGrid } from './SymbolOverrides';
+import { StrategyParameterFields } from './StrategyFields';
+import { RuleSummary } from './RuleBuilder';
+import { TradingModeBadge } from './TradingMode';
+import { describeSchedule } from '@/lib/schedule';
+import { CLASSIC_STRATEGY, findStrategy, strategyName, traderStrategyId } from '@/lib/strategies';
+import { hasRules } from '@/lib/rules';
+import { pruneOverrides } from '@/lib/symbol-overrides';
+import { traderMode } from '@/lib/trading-mode';
 
 interface TraderControlsProps {
   traderId: string;
-  onUpdate: () => void;
 }
 
-interface TraderStatus {
-  id: string;
-  name: string;
-  is_running: boolean;
-  config: {
-    initial_balance: number;
-    risk_per_trade: number;
-    leverage: number;
-    cooldown_minutes: number;
-    daily_loss_limit: number;
-    max_open_trades: number;
-    symbols: string[];
-    rsi_period: number;
-    rsi_overbought: number;
-    rsi_oversold: number;
-    bollinger_period: number;
-    bollinger_std: number;
-    ma_short: number;
-    ma_long: number;
-    volume_threshold: number;
-  };
-  balance: number;
-  open_trades: number;
-  daily_pnl: number;
-  total_trades: number;
-  last_trade_time?: string;
-}
-
-export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
-  const [status, setStatus] = useState<TraderStatus | null>(null);
-  const [loading, setLoading] = useState(false);
+export function TraderControls({ traderId }: TraderControlsProps) {
+  const { data: status, error, refetch, isFetching } = useTraderStatus(traderId);
+  const { data: strategies = [CLASSIC_STRATEGY] } = useStrategies();
+  const exportTrades = useExportTrades();
+  const [editing, setEditing] = useState(false);
+  const { can } = usePermissions();
   const { toast } = useToast();
-
-  useEffect(() => {
-    loadTraderStatus();
-  }, [traderId]);
-
-  const loadTraderStatus = async () => {
-    try {
-      const data = await tradingAPI.getTraderStatus(traderId);
-      setStatus(data);
-    } catch (error) {
-      console.error('Error loading trader status:', error);
-    }
-  };
+  const loading = isFetching || exportTrades.isPending;
 
   const handleExportTrades = async () => {
-    setLoading(true);
     try {
-      const data = await tradingAPI.exportTrades(traderId);
+      const data = await exportTrades.mutateAsync(traderId);
       
       // Create and download CSV file
       const csv = convertToCSV(data);
@@ -80,11 +55,9 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
     } catch (error) {
       toast({
         title: "Export Failed",
-        description: "Failed to export trade history.",
+        description: getErrorMessage(error, "Failed to export trade history."),
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -109,6 +82,10 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
     return csvContent;
   };
 
+  if (!status && isContractError(error)) {
+    return <ContractMismatchPanel errors={[error]} />;
+  }
+
   if (!status) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -117,6 +94,9 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
     );
   }
 
+  const strategyId = traderStrategyId(status.config);
+  const strategy = findStrategy(strategies, strategyId);
+
   return (
     <div className="space-y-6">
       {/* Current Status */}
@@ -133,6 +113,7 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
                 <Badge variant={status.is_running ? "default" : "secondary"}>
                   {status.is_running ? "Running" : "Stopped"}
                 </Badge>
+                <TradingModeBadge mode={traderMode(status.config)} className="ml-2" />
               </div>
             </div>
             
@@ -165,152 +146,157 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
         </CardContent>
       </Card>
 
-      {/* Trading Configuration */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Trading Configuration</CardTitle>
-          <CardDescription>Current trading parameters</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <div>
-              <Label className="text-sm">Risk Per Trade</Label>
-              <Input 
-                value={`${(status.config.risk_per_trade * 100).toFixed(1)}%`} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Leverage</Label>
-              <Input 
-                value={`${status.config.leverage}x`} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Max Open Trades</Label>
-              <Input 
-                value={status.config.max_open_trades} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Daily Loss Limit</Label>
-              <Input 
-                value={`${(status.config.daily_loss_limit * 100).toFixed(1)}%`} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Cooldown Period</Label>
-              <Input 
-                value={`${status.config.cooldown_minutes} min`} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Volume Threshold</Label>
-              <Input 
-                value={status.config.volume_threshold.toLocaleString()} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      {editing ? (
+        <TraderConfigEditor
+          traderId={traderId}
+          traderName={status.name}
+          settings={status.config}
+          onDone={() => setEditing(false)}
+        />
+      ) : (
+        <>
+          {/* Trading Configuration */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Trading Configuration</CardTitle>
+              <CardDescription>Current trading parameters</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-sm">Risk Per Trade</Label>
+                  <Input 
+                    value={`${(status.config.risk_per_trade * 100).toFixed(1)}%`} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+                
+                <div>
+                  <Label className="text-sm">Leverage</Label>
+                  <Input 
+                    value={`${status.config.leverage}x`} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+                
+                <div>
+                  <Label className="text-sm">Max Open Trades</Label>
+                  <Input 
+                    value={status.config.max_open_trades} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+                
+                <div>
+                  <Label className="text-sm">Daily Loss Limit</Label>
+                  <Input 
+                    value={`${(status.config.daily_loss_limit * 100).toFixed(1)}%`} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+                
+                <div>
+                  <Label className="text-sm">Cooldown Period</Label>
+                  <Input 
+                    value={`${status.config.cooldown_minutes} min`} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+                
+                <div>
+                  <Label className="text-sm">Volume Threshold</Label>
+                  <Input 
+                    value={status.config.volume_threshold.toLocaleString()} 
+                    readOnly 
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
 
-      {/* Technical Indicators Config */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Technical Indicators</CardTitle>
-          <CardDescription>Current indicator settings</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <div>
-              <Label className="text-sm">RSI Period</Label>
-              <Input 
-                value={status.config.rsi_period} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">RSI Overbought</Label>
-              <Input 
-                value={status.config.rsi_overbought} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">RSI Oversold</Label>
-              <Input 
-                value={status.config.rsi_oversold} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Bollinger Period</Label>
-              <Input 
-                value={status.config.bollinger_period} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">Bollinger Std Dev</Label>
-              <Input 
-                value={status.config.bollinger_std} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-            
-            <div>
-              <Label className="text-sm">MA Short/Long</Label>
-              <Input 
-                value={`${status.config.ma_short}/${status.config.ma_long}`} 
-                readOnly 
-                className="mt-1"
-              />
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+          {/* Strategy Config */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Strategy</CardTitle>
+              <CardDescription>{strategyName(strategies, strategyId)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {strategy ? (
+                <StrategyParameterFields definition={strategy} settings={status.config} />
+              ) : (
+                // The backend no longer describes this strategy; show what the config holds
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(status.config.strategy_params ?? {}).map(([key, value]) => (
+                    <Badge key={key} variant="outline">{key}: {String(value)}</Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
 
-      {/* Trading Symbols */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Trading Symbols</CardTitle>
-          <CardDescription>Currently monitored symbols</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-wrap gap-2">
-            {status.config.symbols.map((symbol) => (
-              <Badge key={symbol} variant="outline">
-                {symbol}
-              </Badge>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+          {/* Entry & Exit Rules */}
+          {hasRules(status.config.rules) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Entry & Exit Rules</CardTitle>
+                <CardDescription>Custom conditions; sides without an entry rule use the strategy's signal</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RuleSummary rules={status.config.rules} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Trading Symbols */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Trading Symbols</CardTitle>
+              <CardDescription>Currently monitored symbols</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {status.config.symbols.map((symbol) => (
+                  <Badge key={symbol} variant="outline">
+                    {symbol}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Per-symbol Settings */}
+          {pruneOverrides(status.config.symbol_overrides, status.config.symbols) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Per-symbol Settings</CardTitle>
+                <CardDescription>Effective values for each symbol</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SymbolOverridesGrid settings={status.config} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Trading Schedule */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Trading Schedule</CardTitle>
+              <CardDescription>When the backend starts and stops this trader</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm">{describeSchedule(status.config.schedule)}</p>
+            </CardContent>
+          </Card>
+
+          <ConfigHistory traderId={traderId} traderName={status.name} readOnly={Boolean(status.archived_at)} />
+        </>
+      )}
 
       {/* Actions */}
       <Card>
@@ -320,7 +306,7 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex gap-2">
-            <Button onClick={loadTraderStatus} variant="outline" disabled={loading}>
+            <Button onClick={() => refetch()} variant="outline" disabled={loading}>
               <RefreshCw className="w-4 h-4 mr-2" />
               Refresh Status
             </Button>
@@ -329,6 +315,13 @@ export function TraderControls({ traderId, onUpdate }: TraderControlsProps) {
               <Download className="w-4 h-4 mr-2" />
               Export Trades
             </Button>
+
+            {can('trader:configure') && !status.archived_at && !editing && (
+              <Button onClick={() => setEditing(true)} variant="outline">
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit Configuration
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1,15 +1,39 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Play, Square, Trash2, TrendingUp, TrendingDown, DollarSign, Target } from 'lucide-react';
-import { tradingAPI, type TradeEntry, type PerformanceMetrics } from '@/services/api';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArchiveRestore, Clock, Copy, Play, Square, TrendingUp, TrendingDown, DollarSign, Target } from 'lucide-react';
+import {
+  useConfigRevisions,
+  useRestoreTrader,
+  useStartTrader,
+  useStopTrader,
+  useTraderPerformance,
+  useTraderStatus,
+  useTraderTrades,
+} from '@/hooks/use-trading-queries';
 import { TradeHistory } from './TradeHistory';
 import { PerformanceChart } from './PerformanceChart';
+import { DetailedStatistics } from './DetailedStatistics';
 import { TechnicalIndicators } from './TechnicalIndicators';
 import { TraderControls } from './TraderControls';
+import { ContractMismatchPanel } from './ContractMismatchPanel';
+import { CreateTrader } from './CreateTrader';
+import { PositionActions } from './PositionActions';
+import { OrderTicket } from './OrderTicket';
+import { AuditLog } from './AuditLog';
+import { ArchiveTraderDialog, DeleteArchivedTraderDialog } from './ArchiveTrader';
+import { LiveModeConfirmDialog, LiveTradingBanner, TradingModeBadge } from './TradingMode';
+import { usePermissions } from '@/hooks/use-permissions';
+import { describeScheduleStatus, getScheduleStatus } from '@/lib/schedule';
+import { traderMode } from '@/lib/trading-mode';
 import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage } from '@/services/errors';
+
+// Bot trades include those from backends that don't report a source
+type TradeSourceFilter = 'all' | 'bot' | 'manual';
 
 interface TraderDashboardProps {
   traderId: string;
@@ -18,76 +42,66 @@ interface TraderDashboardProps {
 }
 
 export function TraderDashboard({ traderId, traderName, onTraderDeleted }: TraderDashboardProps) {
-  const [isRunning, setIsRunning] = useState(false);
-  const [trades, setTrades] = useState<TradeEntry[]>([]);
-  const [performance, setPerformance] = useState<PerformanceMetrics | null>(null);
-  const [loading, setLoading] = useState(false);
+  const { data: status, error: statusError } = useTraderStatus(traderId);
+  const { data: trades = [], error: tradesError } = useTraderTrades(traderId);
+  const { data: performance = null, error: performanceError } = useTraderPerformance(traderId);
+  const { data: revisions = [] } = useConfigRevisions(traderId);
+  const startTrader = useStartTrader();
+  const stopTrader = useStopTrader();
+  const restoreTrader = useRestoreTrader();
+  const { role, can } = usePermissions();
   const { toast } = useToast();
+  const [sourceFilter, setSourceFilter] = useState<TradeSourceFilter>('all');
+  const [confirmingLiveStart, setConfirmingLiveStart] = useState(false);
 
-  useEffect(() => {
-    loadTraderData();
-    const interval = setInterval(loadTraderData, 5000); // Refresh every 5 seconds
-    return () => clearInterval(interval);
-  }, [traderId]);
-
-  const loadTraderData = async () => {
-    try {
-      const [statusData, tradesData, performanceData] = await Promise.all([
-        tradingAPI.getTraderStatus(traderId),
-        tradingAPI.getTraderTrades(traderId),
-        tradingAPI.getTraderPerformance(traderId),
-      ]);
-
-      setIsRunning(statusData.is_running);
-      setTrades(tradesData);
-      setPerformance(performanceData);
-    } catch (error) {
-      console.error('Error loading trader data:', error);
-    }
-  };
+  const isRunning = status?.is_running ?? false;
+  // Archived traders stay browsable but read-only until restored
+  const archived = Boolean(status?.archived_at);
+  const schedule = archived ? null : getScheduleStatus(status?.config.schedule, status?.schedule_paused);
+  // Unknown until the status loads; starting is treated as live until then
+  const mode = status ? traderMode(status.config) : undefined;
+  const loading = startTrader.isPending || stopTrader.isPending;
 
   const handleStartStop = async () => {
-    setLoading(true);
+    if (!isRunning && mode !== 'paper' && !confirmingLiveStart) {
+      setConfirmingLiveStart(true);
+      return;
+    }
     try {
       if (isRunning) {
-        await tradingAPI.stopTrader(traderId);
+        await stopTrader.mutateAsync(traderId);
         toast({
           title: "Trader Stopped",
           description: `${traderName} has been stopped successfully.`,
         });
       } else {
-        await tradingAPI.startTrader(traderId);
+        await startTrader.mutateAsync(traderId);
         toast({
           title: "Trader Started",
-          description: `${traderName} is now running.`,
+          description: `${traderName} is now running${mode === 'live' ? ' with real funds' : ''}.`,
         });
       }
-      await loadTraderData();
+      setConfirmingLiveStart(false);
     } catch (error) {
       toast({
-        title: "Error",
-        description: `Failed to ${isRunning ? 'stop' : 'start'} trader.`,
+        title: `Failed to ${isRunning ? 'stop' : 'start'} trader`,
+        description: getErrorMessage(error, "Please try again."),
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleDelete = async () => {
-    if (!confirm(`Are you sure you want to delete ${traderName}?`)) return;
-    
+  const handleRestore = async () => {
     try {
-      await tradingAPI.deleteTrader(traderId);
+      await restoreTrader.mutateAsync(traderId);
       toast({
-        title: "Trader Deleted",
-        description: `${traderName} has been deleted successfully.`,
+        title: "Trader Restored",
+        description: `${traderName} is back in the trader list, stopped.`,
       });
-      onTraderDeleted();
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to delete trader.",
+        title: "Failed to restore trader",
+        description: getErrorMessage(error, "Please try again."),
         variant: "destructive",
       });
     }
@@ -95,6 +109,10 @@ export function TraderDashboard({ traderId, traderName, onTraderDeleted }: Trade
 
   const openTrades = trades.filter(trade => trade.trade_status === 'OPEN');
   const closedTrades = trades.filter(trade => trade.trade_status !== 'OPEN');
+  const hasManualTrades = trades.some(trade => trade.source === 'MANUAL');
+  const analyzedTrades = sourceFilter === 'all' || !hasManualTrades
+    ? trades
+    : trades.filter(trade => (trade.source === 'MANUAL') === (sourceFilter === 'manual'));
 
   return (
     <div className="space-y-6">
@@ -103,27 +121,76 @@ export function TraderDashboard({ traderId, traderName, onTraderDeleted }: Trade
         <div>
           <h2 className="text-2xl font-bold">{traderName}</h2>
           <div className="flex items-center gap-2 mt-1">
-            <Badge variant={isRunning ? "default" : "secondary"}>
-              {isRunning ? "Running" : "Stopped"}
-            </Badge>
+            {archived ? (
+              <Badge variant="secondary">Archived {new Date(status!.archived_at!).toLocaleDateString()}</Badge>
+            ) : (
+              <Badge variant={isRunning ? "default" : "secondary"}>
+                {isRunning ? "Running" : "Stopped"}
+              </Badge>
+            )}
+            {mode && <TradingModeBadge mode={mode} />}
+            {schedule && (
+              <Badge variant={schedule.active ? "outline" : "secondary"} className="gap-1">
+                <Clock className="w-3 h-3" />
+                {describeScheduleStatus(schedule)}
+              </Badge>
+            )}
             <span className="text-muted-foreground text-sm">ID: {traderId}</span>
           </div>
         </div>
         <div className="flex gap-2">
-          <Button
-            onClick={handleStartStop}
-            disabled={loading}
-            variant={isRunning ? "destructive" : "default"}
-          >
-            {isRunning ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
-            {isRunning ? "Stop" : "Start"}
-          </Button>
-          <Button onClick={handleDelete} variant="outline" size="icon">
-            <Trash2 className="w-4 h-4" />
-          </Button>
+          {archived && can('trader:delete') && (
+            <Button onClick={handleRestore} disabled={restoreTrader.isPending}>
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+              {restoreTrader.isPending ? 'Restoring...' : 'Restore'}
+            </Button>
+          )}
+          {!archived && (
+            <Button
+              onClick={handleStartStop}
+              disabled={loading || !can('trader:control')}
+              variant={isRunning ? "destructive" : "default"}
+              title={can('trader:control') ? undefined : `The ${role} role cannot start or stop traders`}
+            >
+              {isRunning ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+              {isRunning ? "Stop" : "Start"}
+            </Button>
+          )}
+          {!archived && can('trader:control') && status && (
+            <OrderTicket traderId={traderId} traderName={traderName} status={status} trades={trades} />
+          )}
+          {can('trader:create') && status && (
+            <CreateTrader
+              duplicateOf={{ name: traderName, settings: status.config }}
+              trigger={
+                <Button variant="outline">
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate
+                </Button>
+              }
+            />
+          )}
+          {can('trader:delete') && status && (archived ? (
+            <DeleteArchivedTraderDialog traderId={traderId} traderName={traderName} onDeleted={onTraderDeleted} />
+          ) : (
+            <ArchiveTraderDialog
+              traderId={traderId}
+              traderName={traderName}
+              isRunning={isRunning}
+              openTrades={openTrades}
+            />
+          ))}
         </div>
       </div>
 
+      {mode === 'live' && !archived && (
+        <LiveTradingBanner>
+          {traderName} {isRunning ? 'is placing' : 'places'} real orders with real funds on this backend.
+        </LiveTradingBanner>
+      )}
+
+      <ContractMismatchPanel errors={[statusError, tradesError, performanceError]} />
+
       {/* Performance Overview */}
       {performance && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -200,7 +267,13 @@ export function TraderDashboard({ traderId, traderName, onTraderDeleted }: Trade
                 <CardDescription>Currently active trades</CardDescription>
               </CardHeader>
               <CardContent>
-                <TradeHistory trades={openTrades} showStatus={false} />
+                <TradeHistory
+                  trades={openTrades}
+                  showStatus={false}
+                  renderActions={can('trader:control')
+                    ? (trade) => <PositionActions traderId={traderId} trade={trade} />
+                    : undefined}
+                />
               </CardContent>
             </Card>
           )}
@@ -214,10 +287,34 @@ export function TraderDashboard({ traderId, traderName, onTraderDeleted }: Trade
               <TradeHistory trades={closedTrades} />
             </CardContent>
           </Card>
+
+          <AuditLog traderId={traderId} />
         </TabsContent>
 
-        <TabsContent value="performance">
-          <PerformanceChart trades={trades} performance={performance} />
+        <TabsContent value="performance" className="space-y-4">
+          {hasManualTrades && (
+            <div className="flex justify-end">
+              <Select value={sourceFilter} onValueChange={(value) => setSourceFilter(value as TradeSourceFilter)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All trades</SelectItem>
+                  <SelectItem value="bot">Bot trades only</SelectItem>
+                  <SelectItem value="manual">Manual trades only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <PerformanceChart trades={analyzedTrades} performance={performance} revisions={revisions} settings={status?.config} />
+          {status && (
+            <DetailedStatistics
+              trades={analyzedTrades}
+              initialBalance={status.config.initial_balance}
+              backend={performance}
+              filtered={analyzedTrades !== trades}
+            />
+          )}
         </TabsContent>
 
         <TabsContent value="indicators">
@@ -225,9 +322,18 @@ export function TraderDashboard({ traderId, traderName, onTraderDeleted }: Trade
         </TabsContent>
 
         <TabsContent value="controls">
-          <TraderControls traderId={traderId} onUpdate={loadTraderData} />
+          <TraderControls traderId={traderId} />
         </TabsContent>
       </Tabs>
+
+      <LiveModeConfirmDialog
+        open={confirmingLiveStart}
+        traderName={traderName}
+        action="start"
+        pending={startTrader.isPending}
+        onConfirm={handleStartStop}
+        onCancel={() => setConfirmingLiveStart(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ChevronRight, Clock, Search } from 'lucide-react';
+import { type TraderSummary, type TradingMode } from '@/services/api';
+import { describeScheduleStatus, getScheduleStatus } from '@/lib/schedule';
+import { MODE_LABELS, TRADING_MODES, traderMode } from '@/lib/trading-mode';
+import {
+  DEFAULT_FILTERS,
+  filterTraders,
+  groupTraders,
+  SORT_LABELS,
+  sortTraders,
+  UNGROUPED,
+  type TraderListFilters,
+  type TraderSortKey,
+} from '@/lib/trader-list';
+import { TradingModeBadge } from './TradingMode';
+
+interface TraderListProps {
+  traders: TraderSummary[];
+  selectedId: string | null;
+  onSelect: (traderId: string) => void;
+}
+
+const formatPnl = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+function TraderListItem({ trader, selected, onSelect }: { trader: TraderSummary; selected: boolean; onSelect: () => void }) {
+  const schedule = getScheduleStatus(trader.schedule, trader.schedule_paused);
+
+  return (
+    <Button
+      variant={selected ? "default" : "outline"}
+      className="w-full justify-start h-auto py-2"
+      onClick={onSelect}
+    >
+      <div className="flex items-center gap-2 w-full">
+        <div className="flex-1 text-left min-w-0">
+          <div className="font-medium flex items-center gap-2">
+            <span className="truncate">{trader.name}</span>
+            <TradingModeBadge mode={traderMode(trader)} className="text-[10px] px-1.5 py-0" />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            ${trader.balance.toFixed(2)}
+            {trader.open_trades > 0 && ` · ${trader.open_trades} open`}
+          </div>
+          {schedule && (
+            <div className="text-xs text-muted-foreground flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {describeScheduleStatus(schedule)}
+            </div>
+          )}
+          {trader.tags && trader.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {trader.tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <Badge
+          variant={trader.is_running ? "default" : "secondary"}
+          className="text-xs"
+        >
+          {trader.is_running ? "ON" : "OFF"}
+        </Badge>
+      </div>
+    </Button>
+  );
+}
+
+export function TraderList({ traders, selectedId, onSelect }: TraderListProps) {
+  const [filters, setFilters] = useState<TraderListFilters>(DEFAULT_FILTERS);
+  const [sortKey, setSortKey] = useState<TraderSortKey>('name');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const visible = sortTraders(filterTraders(traders, filters), sortKey);
+  const groups = groupTraders(visible);
+  // Group headers only help once someone has actually grouped their traders
+  const showGroups = groups.some(group => group.name !== UNGROUPED);
+  const filtered = visible.length !== traders.length;
+
+  const updateFilters = (patch: Partial<TraderListFilters>) => setFilters({ ...filters, ...patch });
+
+  const toggleGroup = (name: string) => {
+    const next = new Set(collapsed);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setCollapsed(next);
+  };
+
+  const renderTraders = (members: TraderSummary[]) => members.map(trader => (
+    <TraderListItem
+      key={trader.id}
+      trader={trader}
+      selected={selectedId === trader.id}
+      onSelect={() => onSelect(trader.id)}
+    />
+  ));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trading Bots ({filtered ? `${visible.length} of ${traders.length}` : traders.length})</CardTitle>
+        <CardDescription>Select a bot to view details</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              placeholder="Search name, group or tag"
+              className="pl-8"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={sortKey} onValueChange={(value) => setSortKey(value as TraderSortKey)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>Sort: {label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.running}
+              onValueChange={(value) => updateFilters({ running: value as TraderListFilters['running'] })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any status</SelectItem>
+                <SelectItem value="running">Running</SelectItem>
+                <SelectItem value="stopped">Stopped</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.mode}
+              onValueChange={(value) => updateFilters({ mode: value as TradingMode | 'all' })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any mode</SelectItem>
+                {TRADING_MODES.map(mode => (
+                  <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]} only</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <Checkbox
+                checked={filters.openTradesOnly}
+                onCheckedChange={(checked) => updateFilters({ openTradesOnly: checked === true })}
+              />
+              Has open trades
+            </label>
+          </div>
+        </div>
+
+        {traders.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">No active traders.</div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-4 text-sm text-muted-foreground">
+            No traders match these filters.
+            <Button variant="link" size="sm" onClick={() => setFilters(DEFAULT_FILTERS)}>
+              Clear filters
+            </Button>
+          </div>
+        ) : showGroups ? (
+          <div className="space-y-3">
+            {groups.map(group => (
+              <Collapsible key={group.name} open={!collapsed.has(group.name)} onOpenChange={() => toggleGroup(group.name)}>
+                <CollapsibleTrigger className="flex items-center gap-1 w-full text-left text-sm font-medium">
+                  {collapsed.has(group.name) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  <span className="flex-1 truncate">{group.name} ({group.traders.length})</span>
+                </CollapsibleTrigger>
+                <div className="text-xs text-muted-foreground pl-5">
+                  ${group.balance.toFixed(2)} ·{' '}
+                  <span className={group.dailyPnl >= 0 ? 'text-profit' : 'text-loss'}>{formatPnl(group.dailyPnl)}</span>
+                  {' '}today · {group.running} running
+                </div>
+                <CollapsibleContent className="space-y-2 mt-2">
+                  {renderTraders(group.traders)}
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">{renderTraders(visible)}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { X } from 'lucide-react';
+import { useTraders } from '@/hooks/use-trading-queries';
+import { knownGroups, knownTags, normalizeTags } from '@/lib/trader-list';
+
+interface TraderOrganizationFieldsProps {
+  group?: string;
+  tags?: string[];
+  onChange: (organization: { group?: string; tags: string[] }) => void;
+}
+
+// Group and tag inputs, suggesting the ones other traders already use so spellings stay consistent
+export function TraderOrganizationFields({ group, tags = [], onChange }: TraderOrganizationFieldsProps) {
+  const { data: traders = [] } = useTraders();
+  const [newTag, setNewTag] = useState('');
+
+  const addTag = () => {
+    onChange({ group, tags: normalizeTags([...tags, newTag]) });
+    setNewTag('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor="trader-group">Group</Label>
+        <Input
+          id="trader-group"
+          className="mt-1"
+          list="trader-groups"
+          value={group ?? ''}
+          onChange={(e) => onChange({ group: e.target.value || undefined, tags })}
+          placeholder="e.g. Majors"
+        />
+        <datalist id="trader-groups">
+          {knownGroups(traders).map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <Label htmlFor="trader-tag">Tags</Label>
+        <div className="flex gap-2 mt-1">
+          <Input
+            id="trader-tag"
+            list="trader-tags"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            placeholder="e.g. momentum"
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+          />
+          <Button type="button" variant="outline" onClick={addTag}>Add</Button>
+        </div>
+        <datalist id="trader-tags">
+          {knownTags(traders).filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <X
+                  className="w-3 h-3 cursor-pointer"
+                  onClick={() => onChange({ group, tags: tags.filter(t => t !== tag) })}
+                />
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { type TradingMode } from '@/services/api';
+import { MODE_LABELS, TRADING_MODES } from '@/lib/trading-mode';
+
+export function TradingModeBadge({ mode, className }: { mode: TradingMode; className?: string }) {
+  return (
+    <Badge variant={mode === 'live' ? "destructive" : "outline"} className={className}>
+      {MODE_LABELS[mode].toUpperCase()}
+    </Badge>
+  );
+}
+
+export function LiveTradingBanner({ children }: { children: React.ReactNode }) {
+  return (
+    <Alert variant="destructive" className="border-2">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Live trading</AlertTitle>
+      <AlertDescription>{children}</AlertDescription>
+    </Alert>
+  );
+}
+
+interface LiveModeConfirmDialogProps {
+  open: boolean;
+  traderName: string;
+  // Starting a live trader, or saving a config that moves a trader from paper to live
+  action: 'start' | 'switch';
+  pending: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const COPY = {
+  start: {
+    title: 'Start Live Trader',
+    description: 'This trader is in live mode. Once started it places real orders with real funds.',
+    confirm: 'Start Live Trading',
+  },
+  switch: {
+    title: 'Switch to Live Trading',
+    description: 'This change moves the trader from paper to live mode. Its next orders use real funds.',
+    confirm: 'Switch to Live',
+  },
+};
+
+const MODE_DESCRIPTIONS: Record<TradingMode, string> = {
+  paper: 'Simulated fills against live prices; no real orders or funds',
+  live: 'Places real orders on the exchange with real funds',
+};
+
+export function TradingModePicker({ value, onChange }: { value: TradingMode; onChange: (mode: TradingMode) => void }) {
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(mode) => onChange(mode as TradingMode)}
+      className="grid-cols-1 md:grid-cols-2"
+    >
+      {TRADING_MODES.map(mode => (
+        <Label
+          key={mode}
+          htmlFor={`trading-mode-${mode}`}
+          className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer ${
+            value === mode ? (mode === 'live' ? 'border-destructive' : 'border-primary') : ''
+          }`}
+        >
+          <RadioGroupItem id={`trading-mode-${mode}`} value={mode} className="mt-0.5" />
+          <div className="space-y-1">
+            <TradingModeBadge mode={mode} />
+            <p className="text-sm font-normal text-muted-foreground">{MODE_DESCRIPTIONS[mode]}</p>
+          </div>
+        </Label>
+      ))}
+    </RadioGroup>
+  );
+}
+
+// Going live always needs the trader's name typed out, so a stray click can't commit real money
+export function LiveModeConfirmDialog({ open, traderName, action, pending, onConfirm, onCancel }: LiveModeConfirmDialogProps) {
+  const [confirmation, setConfirmation] = useState('');
+  const copy = COPY[action];
+
+  useEffect(() => {
+    setConfirmation('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !pending && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Real money at risk</AlertTitle>
+          <AlertDescription>
+            Losses in live mode are real and cannot be reversed from this dashboard.
+          </AlertDescription>
+        </Alert>
+
+        <div>
+          <Label htmlFor="live-mode-confirm">
+            Type <span className="font-mono font-semibold">{traderName}</span> to confirm
+          </Label>
+          <Input
+            id="live-mode-confirm"
+            className="mt-1 font-mono"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            disabled={pending}
+            autoComplete="off"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={pending}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={onConfirm}
+            disabled={confirmation.trim() !== traderName.trim() || pending}
+          >
+            {pending ? 'Working...' : copy.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useConnection } from '@/hooks/use-connection';
+import { useToast } from '@/hooks/use-toast';
+import { type AuthSession } from '@/services/auth';
+
+interface AuthContextValue {
+  session: AuthSession | null;
+  login: (username: string, password: string) => Promise<void>;
+  loginWithApiKey: (apiKey: string) => Promise<void>;
+  logout: () => void;
+}
+
+// Refresh a little before the access token lapses so requests never race the expiry
+const REFRESH_MARGIN_MS = 60_000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+function timerDelay(at: number) {
+  return Math.min(Math.max(0, at - Date.now()), MAX_TIMER_MS);
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { api, sessionStore } = useConnection();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [session, setSession] = useState<AuthSession | null>(() => sessionStore.get());
+
+  useEffect(() => {
+    setSession(sessionStore.get());
+    return sessionStore.subscribe((next, reason) => {
+      setSession(next);
+      if (next) return;
+      // Nothing fetched under the old session may stay on screen
+      queryClient.clear();
+      if (reason === 'expired') {
+        toast({
+          title: "Session expired",
+          description: "Sign in again to keep controlling your traders.",
+          variant: "destructive",
+        });
+      }
+    });
+  }, [sessionStore, queryClient, toast]);
+
+  useEffect(() => {
+    if (!session?.expiresAt) return;
+    const { expiresAt } = session;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let cancelled = false;
+    // Still the same session at expiry means the refresh did not happen: sign out
+    const scheduleExpiry = () => timers.push(setTimeout(() => {
+      if (!cancelled && sessionStore.get() === session) sessionStore.clear('expired');
+    }, timerDelay(expiresAt)));
+    if (session.refreshToken) {
+      // The expiry check waits for the refresh, which is still in flight when both timers are already due
+      // (a session restored after its token lapsed, or a laptop waking from sleep)
+      timers.push(setTimeout(() => {
+        void api.refreshSession().then(refreshed => {
+          if (!refreshed && !cancelled) scheduleExpiry();
+        });
+      }, timerDelay(expiresAt - REFRESH_MARGIN_MS)));
+    } else {
+      scheduleExpiry();
+    }
+    return () => {
+      cancelled = true;
+      timers.forEach(clearTimeout);
+    };
+  }, [session, api, sessionStore]);
+
+  const login = useCallback((username: string, password: string) => api.login(username, password), [api]);
+  const loginWithApiKey = useCallback((apiKey: string) => api.loginWithApiKey(apiKey), [api]);
+  const logout = useCallback(() => sessionStore.clear('logout'), [sessionStore]);
+
+  const value = useMemo(() => ({
+    session,
+    login,
+    loginWithApiKey,
+    logout,
+  }), [session, login, loginWithApiKey, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,94 @@
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { createTradingAPI, type TradingAPI } from '@/services/api';
+import { SessionStore } from '@/services/auth';
+import {
+  DEFAULT_PROFILE,
+  isBuiltInProfile,
+  loadActiveProfileId,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles,
+  type ConnectionProfile,
+} from '@/services/connection';
+
+interface ConnectionContextValue {
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile;
+  api: TradingAPI;
+  sessionStore: SessionStore;
+  setActiveProfile: (profileId: string) => void;
+  saveProfile: (profile: ConnectionProfile) => void;
+  removeProfile: (profileId: string) => void;
+}
+
+const ConnectionContext = createContext<ConnectionContextValue | null>(null);
+
+export function ConnectionProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(loadActiveProfileId);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? DEFAULT_PROFILE;
+  // Each backend has its own login, so a session never follows the user to another profile
+  const sessionStore = useMemo(() => new SessionStore(activeProfile.id), [activeProfile.id]);
+  const api = useMemo(() => createTradingAPI(activeProfile, sessionStore), [activeProfile, sessionStore]);
+
+  const setActiveProfile = useCallback((profileId: string) => {
+    if (profileId === activeProfileId) return;
+    // Cached data belongs to the previous backend, never show it against the new one
+    queryClient.clear();
+    saveActiveProfileId(profileId);
+    setActiveProfileId(profileId);
+  }, [activeProfileId, queryClient]);
+
+  const saveProfile = useCallback((profile: ConnectionProfile) => {
+    setProfiles(current => {
+      const exists = current.some(p => p.id === profile.id);
+      const next = exists
+        ? current.map(p => (p.id === profile.id ? profile : p))
+        : [...current, profile];
+      saveProfiles(next);
+      return next;
+    });
+    if (profile.id === activeProfileId) {
+      queryClient.clear();
+    }
+  }, [activeProfileId, queryClient]);
+
+  const removeProfile = useCallback((profileId: string) => {
+    if (isBuiltInProfile(profileId)) return;
+    setProfiles(current => {
+      const next = current.filter(p => p.id !== profileId);
+      saveProfiles(next);
+      return next;
+    });
+    if (profileId === activeProfileId) {
+      setActiveProfile(DEFAULT_PROFILE.id);
+    }
+  }, [activeProfileId, setActiveProfile]);
+
+  const value = useMemo(() => ({
+    profiles,
+    activeProfile,
+    api,
+    sessionStore,
+    setActiveProfile,
+    saveProfile,
+    removeProfile,
+  }), [profiles, activeProfile, api, sessionStore, setActiveProfile, saveProfile, removeProfile]);
+
+  return <ConnectionContext.Provider value={value}>{children}</ConnectionContext.Provider>;
+}
+
+export function useConnection() {
+  const context = useContext(ConnectionContext);
+  if (!context) {
+    throw new Error('useConnection must be used within a ConnectionProvider.');
+  }
+  return context;
+}
+
+export function useTradingAPI() {
+  return useConnection().api;
+}
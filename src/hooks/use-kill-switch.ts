@@ -0,0 +1,100 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useTradingAPI } from '@/hooks/use-connection';
+import { traderKeys } from '@/hooks/use-trading-queries';
+import { getErrorMessage } from '@/services/errors';
+
+export type KillSwitchStep = 'pending' | 'stopping' | 'closing' | 'done' | 'failed';
+
+export interface KillSwitchTraderResult {
+  traderId: string;
+  name: string;
+  step: KillSwitchStep;
+  wasRunning: boolean;
+  stopped: boolean;
+  openTrades: number;
+  closedTrades: number;
+  errors: string[];
+}
+
+export interface KillSwitchOptions {
+  closePositions: boolean;
+}
+
+// Stops every running trader and optionally closes every open trade, reporting progress per trader.
+// Traders are handled in parallel; within a trader the stop goes first so nothing new opens while
+// its positions are being closed.
+export function useKillSwitch() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  const [results, setResults] = useState<KillSwitchTraderResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const update = useCallback((traderId: string, patch: (current: KillSwitchTraderResult) => Partial<KillSwitchTraderResult>) => {
+    setResults(current => current.map(r => (r.traderId === traderId ? { ...r, ...patch(r) } : r)));
+  }, []);
+
+  const run = useCallback(async ({ closePositions }: KillSwitchOptions) => {
+    setRunning(true);
+    try {
+      // Act on the backend's current view, not on whatever the list cache last saw
+      const traders = await queryClient.fetchQuery({ queryKey: traderKeys.list(), queryFn: () => api.getTraders(), staleTime: 0 });
+      const targets = traders.filter(t => t.is_running || (closePositions && t.open_trades > 0));
+      setResults(targets.map(t => ({
+        traderId: t.id,
+        name: t.name,
+        step: 'pending',
+        wasRunning: t.is_running,
+        stopped: false,
+        openTrades: 0,
+        closedTrades: 0,
+        errors: [],
+      })));
+
+      const outcomes = await Promise.all(targets.map(async (trader) => {
+        const errors: string[] = [];
+
+        if (trader.is_running) {
+          update(trader.id, () => ({ step: 'stopping' }));
+          try {
+            await api.stopTrader(trader.id);
+            update(trader.id, () => ({ stopped: true }));
+          } catch (error) {
+            errors.push(`Stop failed: ${getErrorMessage(error, 'unknown error')}`);
+          }
+        }
+
+        if (closePositions) {
+          update(trader.id, () => ({ step: 'closing' }));
+          try {
+            const trades = await api.getTraderTrades(trader.id);
+            const open = trades.filter(t => t.trade_status === 'OPEN');
+            update(trader.id, () => ({ openTrades: open.length }));
+            for (const trade of open) {
+              try {
+                await api.closeTrade(trader.id, trade.trade_id);
+                update(trader.id, current => ({ closedTrades: current.closedTrades + 1 }));
+              } catch (error) {
+                errors.push(`Closing ${trade.symbol} ${trade.side} failed: ${getErrorMessage(error, 'unknown error')}`);
+              }
+            }
+          } catch (error) {
+            errors.push(`Loading open trades failed: ${getErrorMessage(error, 'unknown error')}`);
+          }
+        }
+
+        update(trader.id, () => ({ step: errors.length ? 'failed' : 'done', errors }));
+        return errors.length === 0;
+      }));
+
+      return { traders: targets.length, failed: outcomes.filter(ok => !ok).length };
+    } finally {
+      setRunning(false);
+      await queryClient.invalidateQueries({ queryKey: traderKeys.all });
+    }
+  }, [api, queryClient, update]);
+
+  const reset = useCallback(() => setResults([]), []);
+
+  return { run, reset, results, running };
+}
@@ -0,0 +1,11 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { DEFAULT_ROLE, hasPermission, type Permission } from '@/services/permissions';
+
+export function usePermissions() {
+  const { session } = useAuth();
+  const role = session?.role ?? DEFAULT_ROLE;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { role, can };
+}
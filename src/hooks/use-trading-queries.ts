@@ -0,0 +1,364 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useTradingAPI } from '@/hooks/use-connection';
+import { useStreamEvents, useTradingStream } from '@/hooks/use-trading-stream';
+import {
+  type IndicatorData,
+  type ManualOrder,
+  type TradeEntry,
+  type TradeLevels,
+  type TraderConfig,
+  type TraderSettings,
+  type TraderStatus,
+  type TraderSummary,
+} from '@/services/api';
+import { applyTradeEvent, isTradeEvent } from '@/services/stream';
+
+// Polling intervals used while the push stream is unavailable
+const TRADERS_REFETCH_MS = 10000;
+const TRADER_REFETCH_MS = 5000;
+const INDICATORS_REFETCH_MS = 10000;
+// Listings change a few times a year; one fetch per hour is plenty
+const SYMBOL_CATALOG_STALE_MS = 60 * 60 * 1000;
+// Strategies only change when the backend is redeployed
+const STRATEGIES_STALE_MS = 60 * 60 * 1000;
+
+export const traderKeys = {
+  all: ['traders'] as const,
+  list: () => [...traderKeys.all, 'list'] as const,
+  archived: () => [...traderKeys.all, 'archived'] as const,
+  detail: (traderId: string) => [...traderKeys.all, 'detail', traderId] as const,
+  status: (traderId: string) => [...traderKeys.detail(traderId), 'status'] as const,
+  trades: (traderId: string) => [...traderKeys.detail(traderId), 'trades'] as const,
+  performance: (traderId: string) => [...traderKeys.detail(traderId), 'performance'] as const,
+  revisions: (traderId: string) => [...traderKeys.detail(traderId), 'revisions'] as const,
+  audit: (traderId: string) => [...traderKeys.detail(traderId), 'audit'] as const,
+  indicators: (traderId: string, symbol: string) =>
+    [...traderKeys.detail(traderId), 'indicators', symbol] as const,
+};
+
+export const strategyKeys = {
+  all: ['strategies'] as const,
+};
+
+export const marketKeys = {
+  all: ['market'] as const,
+  symbols: () => [...marketKeys.all, 'symbols'] as const,
+};
+
+// Poll only when nothing is being pushed; react-query pauses intervals while the tab is hidden
+function usePollingInterval(intervalMs: number) {
+  const { isLive } = useTradingStream();
+  return isLive ? false : intervalMs;
+}
+
+// Queries
+
+export function useTraders() {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.list(),
+    queryFn: () => api.getTraders(),
+    refetchInterval: usePollingInterval(TRADERS_REFETCH_MS),
+  });
+}
+
+// Not polled: traders only move in or out of the archive through this dashboard's own mutations
+export function useArchivedTraders() {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.archived(),
+    queryFn: () => api.getArchivedTraders(),
+  });
+}
+
+export function useTraderStatus(traderId: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.status(traderId),
+    queryFn: () => api.getTraderStatus(traderId),
+    refetchInterval: usePollingInterval(TRADER_REFETCH_MS),
+  });
+}
+
+export function useTraderTrades(traderId: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.trades(traderId),
+    queryFn: () => api.getTraderTrades(traderId),
+    refetchInterval: usePollingInterval(TRADER_REFETCH_MS),
+  });
+}
+
+export function useTraderPerformance(traderId: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.performance(traderId),
+    queryFn: () => api.getTraderPerformance(traderId),
+    refetchInterval: usePollingInterval(TRADER_REFETCH_MS),
+  });
+}
+
+// Not polled: revisions change rarely and every config mutation here invalidates them
+export function useConfigRevisions(traderId: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.revisions(traderId),
+    queryFn: () => api.getConfigRevisions(traderId),
+  });
+}
+
+export function useAuditLog(traderId: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.audit(traderId),
+    queryFn: () => api.getAuditLog(traderId),
+    refetchInterval: usePollingInterval(TRADER_REFETCH_MS),
+  });
+}
+
+export function useTechnicalIndicators(traderId: string, symbol: string) {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: traderKeys.indicators(traderId, symbol),
+    queryFn: () => api.getTechnicalIndicators(traderId, symbol),
+    // No symbol yet while the trader's config is still loading
+    enabled: symbol !== '',
+    refetchInterval: usePollingInterval(INDICATORS_REFETCH_MS),
+  });
+}
+
+// Shared by every form that picks symbols, so the catalog is fetched once and kept in the cache
+export function useSymbolCatalog() {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: marketKeys.symbols(),
+    queryFn: () => api.getSymbols(),
+    staleTime: SYMBOL_CATALOG_STALE_MS,
+    gcTime: SYMBOL_CATALOG_STALE_MS,
+  });
+}
+
+// Backends that predate pluggable strategies don't serve this; forms fall back to CLASSIC_STRATEGY
+export function useStrategies() {
+  const api = useTradingAPI();
+  return useQuery({
+    queryKey: strategyKeys.all,
+    queryFn: () => api.getStrategies(),
+    staleTime: STRATEGIES_STALE_MS,
+    gcTime: STRATEGIES_STALE_MS,
+  });
+}
+
+// Mutations
+
+export function useCreateTrader() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (config: TraderConfig) => api.createTrader(config),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: traderKeys.list() }),
+  });
+}
+
+function setRunningState(queryClient: QueryClient, traderId: string, isRunning: boolean) {
+  queryClient.setQueryData<TraderStatus>(traderKeys.status(traderId), current =>
+    current ? { ...current, is_running: isRunning } : current
+  );
+  queryClient.setQueryData<TraderSummary[]>(traderKeys.list(), current =>
+    current?.map(trader => (trader.id === traderId ? { ...trader, is_running: isRunning } : trader))
+  );
+}
+
+// Start/stop flip the running badge immediately and roll back if the backend refuses
+function useRunningStateMutation(isRunning: boolean) {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (traderId: string) => (isRunning ? api.startTrader(traderId) : api.stopTrader(traderId)),
+    onMutate: async (traderId) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: traderKeys.status(traderId) }),
+        queryClient.cancelQueries({ queryKey: traderKeys.list() }),
+      ]);
+      const previousStatus = queryClient.getQueryData<TraderStatus>(traderKeys.status(traderId));
+      const previousList = queryClient.getQueryData<TraderSummary[]>(traderKeys.list());
+      setRunningState(queryClient, traderId, isRunning);
+      return { previousStatus, previousList };
+    },
+    onError: (_error, traderId, context) => {
+      queryClient.setQueryData(traderKeys.status(traderId), context?.previousStatus);
+      queryClient.setQueryData(traderKeys.list(), context?.previousList);
+    },
+    onSettled: (_data, _error, traderId) => Promise.all([
+      queryClient.invalidateQueries({ queryKey: traderKeys.status(traderId) }),
+      queryClient.invalidateQueries({ queryKey: traderKeys.list() }),
+    ]),
+  });
+}
+
+export function useStartTrader() {
+  return useRunningStateMutation(true);
+}
+
+export function useStopTrader() {
+  return useRunningStateMutation(false);
+}
+
+export function useUpdateTraderConfig() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ traderId, settings }: { traderId: string; settings: TraderSettings }) =>
+      api.updateTraderConfig(traderId, settings),
+    onSuccess: (_data, { traderId, settings }) => {
+      queryClient.setQueryData<TraderStatus>(traderKeys.status(traderId), current =>
+        current ? { ...current, config: settings } : current
+      );
+      return queryClient.invalidateQueries({ queryKey: traderKeys.detail(traderId) });
+    },
+  });
+}
+
+export function useRollbackConfig() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ traderId, revision }: { traderId: string; revision: number }) =>
+      api.rollbackConfig(traderId, revision),
+    onSuccess: (_data, { traderId }) => queryClient.invalidateQueries({ queryKey: traderKeys.detail(traderId) }),
+  });
+}
+
+// Position changes move the balance and trade counts too, so the list is refreshed with the detail
+function invalidateTrader(queryClient: QueryClient, traderId: string) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: traderKeys.detail(traderId) }),
+    queryClient.invalidateQueries({ queryKey: traderKeys.list() }),
+  ]);
+}
+
+export function useOpenTrade() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ traderId, order }: { traderId: string; order: ManualOrder }) => api.openTrade(traderId, order),
+    onSettled: (_data, _error, { traderId }) => invalidateTrader(queryClient, traderId),
+  });
+}
+
+export function useCloseTrade() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ traderId, tradeId, fraction }: { traderId: string; tradeId: string; fraction?: number }) =>
+      api.closeTrade(traderId, tradeId, fraction),
+    onSettled: (_data, _error, { traderId }) => invalidateTrader(queryClient, traderId),
+  });
+}
+
+export function useUpdateTradeLevels() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ traderId, tradeId, levels }: { traderId: string; tradeId: string; levels: TradeLevels }) =>
+      api.updateTradeLevels(traderId, tradeId, levels),
+    onSettled: (_data, _error, { traderId }) => invalidateTrader(queryClient, traderId),
+  });
+}
+
+// Archiving or restoring moves a trader between the two lists and changes what its status reports
+function useArchiveStateMutation(archive: boolean) {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (traderId: string) => (archive ? api.archiveTrader(traderId) : api.restoreTrader(traderId)),
+    onSuccess: (_data, traderId) => Promise.all([
+      queryClient.invalidateQueries({ queryKey: traderKeys.detail(traderId) }),
+      queryClient.invalidateQueries({ queryKey: traderKeys.list() }),
+      queryClient.invalidateQueries({ queryKey: traderKeys.archived() }),
+    ]),
+  });
+}
+
+export function useArchiveTrader() {
+  return useArchiveStateMutation(true);
+}
+
+export function useRestoreTrader() {
+  return useArchiveStateMutation(false);
+}
+
+export function useDeleteTrader() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (traderId: string) => api.deleteTrader(traderId),
+    onSuccess: (_data, traderId) => {
+      queryClient.removeQueries({ queryKey: traderKeys.detail(traderId) });
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: traderKeys.list() }),
+        queryClient.invalidateQueries({ queryKey: traderKeys.archived() }),
+      ]);
+    },
+  });
+}
+
+export function useExportTrades() {
+  const api = useTradingAPI();
+  return useMutation({
+    mutationFn: (traderId: string) => api.exportTrades(traderId),
+  });
+}
+
+// Full configs come from each trader's status; reuse cached statuses where they are fresh
+export function useExportTraderConfigs() {
+  const api = useTradingAPI();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (traderIds: string[]) => Promise.all(traderIds.map(async (traderId): Promise<TraderConfig> => {
+      const status = await queryClient.fetchQuery({
+        queryKey: traderKeys.status(traderId),
+        queryFn: () => api.getTraderStatus(traderId),
+        staleTime: TRADER_REFETCH_MS,
+      });
+      return { name: status.name, ...status.config };
+    })),
+  });
+}
+
+// Stream bridge: merge pushed events into the shared query cache
+export function useStreamCacheSync() {
+  const queryClient = useQueryClient();
+  const { isLive } = useTradingStream();
+
+  // Events may have been missed while disconnected, so resync once the stream is back
+  useEffect(() => {
+    if (isLive) {
+      queryClient.invalidateQueries({ queryKey: traderKeys.all });
+    }
+  }, [isLive, queryClient]);
+
+  useStreamEvents((event) => {
+    const traderId = event.trader_id;
+
+    if (isTradeEvent(event)) {
+      queryClient.setQueryData<TradeEntry[]>(traderKeys.trades(traderId), current =>
+        current ? applyTradeEvent(current, event.trade) : current
+      );
+      // Performance metrics are derived server-side from closed trades
+      if (event.type === 'trade_closed') {
+        queryClient.invalidateQueries({ queryKey: traderKeys.performance(traderId) });
+      }
+    } else if (event.type === 'trader_status') {
+      queryClient.setQueryData<TraderStatus>(traderKeys.status(traderId), current =>
+        current ? { ...current, ...event.status } : current
+      );
+      queryClient.setQueryData<TraderSummary[]>(traderKeys.list(), current =>
+        current?.map(trader => (trader.id === traderId ? { ...trader, ...event.status } : trader))
+      );
+    } else if (event.type === 'indicators') {
+      queryClient.setQueryData<IndicatorData>(traderKeys.indicators(traderId, event.symbol), event.indicators);
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useConnection } from '@/hooks/use-connection';
+import { getAuthenticatedStreamUrl } from '@/services/auth';
+import { getStreamUrl } from '@/services/connection';
+import { TradingStream, type TradingStreamEvent, type TradingStreamState } from '@/services/stream';
+
+interface TradingStreamContextValue {
+  stream: TradingStream;
+  state: TradingStreamState;
+}
+
+const TradingStreamContext = createContext<TradingStreamContextValue | null>(null);
+
+// One push connection per active connection profile, shared by every component
+export function TradingStreamProvider({ children }: { children: ReactNode }) {
+  const { activeProfile } = useConnection();
+  const { session } = useAuth();
+  // The mock backend has no push channel, and nothing is streamed before sign-in
+  const streamUrl = activeProfile.kind === 'mock' || !session
+    ? null
+    : getAuthenticatedStreamUrl(getStreamUrl(activeProfile), session);
+  const stream = useMemo(() => new TradingStream(streamUrl), [streamUrl]);
+  const [state, setState] = useState<TradingStreamState>(stream.getState());
+
+  useEffect(() => {
+    const unsubscribe = stream.onStateChange(setState);
+    stream.connect();
+    return () => {
+      unsubscribe();
+      stream.close();
+    };
+  }, [stream]);
+
+  const value = useMemo(() => ({ stream, state }), [stream, state]);
+
+  return <TradingStreamContext.Provider value={value}>{children}</TradingStreamContext.Provider>;
+}
+
+export function useTradingStream() {
+  const context = useContext(TradingStreamContext);
+  if (!context) {
+    throw new Error('useTradingStream must be used within a TradingStreamProvider.');
+  }
+  return { state: context.state, isLive: context.state === 'open' };
+}
+
+// Subscribe to pushed events; the latest handler is always called without resubscribing
+export function useStreamEvents(handler: (event: TradingStreamEvent) => void) {
+  const context = useContext(TradingStreamContext);
+  if (!context) {
+    throw new Error('useStreamEvents must be used within a TradingStreamProvider.');
+  }
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const { stream } = context;
+  useEffect(() => stream.subscribe(event => handlerRef.current(event)), [stream]);
+}
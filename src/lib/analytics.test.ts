@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { type PerformanceMetrics, type TradeEntry } from '@/services/api';
+import { computeAnalytics, findDiscrepancies, formatDuration, type TradeAnalytics } from './analytics';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+// A long of one unit at 1000 that closes `day` days in with the given profit after `hours` hours
+function trade(day: number, pnl: number, hours = 1, overrides: Partial<TradeEntry> = {}): TradeEntry {
+  const opened = START + day * 24 * HOUR_MS;
+  return {
+    trade_id: `T${day}`,
+    timestamp: new Date(opened).toISOString(),
+    symbol: 'BTCUSDT',
+    side: 'LONG',
+    entry_price: 1000,
+    quantity: 1,
+    leverage: 1,
+    risk_pct: 0.01,
+    reward_pct: 0.02,
+    stop_loss: 990,
+    take_profit: 1020,
+    current_roe: 0,
+    drawdown: 0,
+    max_roe: 0,
+    trade_status: pnl > 0 ? 'CLOSED_WIN' : 'CLOSED_LOSS',
+    exit_price: 1000 + pnl,
+    exit_timestamp: new Date(opened + hours * HOUR_MS).toISOString(),
+    notes: '',
+    ...overrides,
+  };
+}
+
+// Backend figures that agree with the local ones, for the comparison tests to change one at a time
+const backendFrom = (local: TradeAnalytics): PerformanceMetrics => ({
+  total_trades: local.total_trades,
+  winning_trades: local.winning_trades,
+  losing_trades: local.losing_trades,
+  win_rate: local.win_rate,
+  avg_win: local.avg_win,
+  avg_loss: local.avg_loss,
+  profit_factor: local.profit_factor,
+  max_drawdown: local.max_drawdown,
+  current_balance: 1000 + local.total_pnl,
+  total_pnl: local.total_pnl,
+  total_pnl_pct: local.total_pnl_pct,
+  sharpe_ratio: local.sharpe_ratio,
+});
+
+describe('computeAnalytics', () => {
+  it('returns zeros when there are no closed trades', () => {
+    const analytics = computeAnalytics([trade(0, 50, 1, { trade_status: 'OPEN', exit_price: undefined })], 1000);
+    Object.values(analytics).forEach(value => expect(value).toBe(0));
+  });
+
+  it('returns 0 instead of Infinity for ratios over losses when every trade wins', () => {
+    const analytics = computeAnalytics([trade(0, 10), trade(1, 30)], 1000);
+    expect(analytics.winning_trades).toBe(2);
+    expect(analytics.losing_trades).toBe(0);
+    expect(analytics.win_rate).toBe(1);
+    expect(analytics.avg_win).toBe(20);
+    expect(analytics.avg_loss).toBe(0);
+    expect(analytics.profit_factor).toBe(0);
+    expect(analytics.payoff_ratio).toBe(0);
+    expect(analytics.max_drawdown).toBe(0);
+    expect(analytics.recovery_factor).toBe(0);
+    expect(analytics.calmar_ratio).toBe(0);
+  });
+
+  it('counts breakeven trades as losses', () => {
+    const analytics = computeAnalytics([trade(0, 20), trade(1, 0), trade(2, -10)], 1000);
+    expect(analytics.winning_trades).toBe(1);
+    expect(analytics.losing_trades).toBe(2);
+    expect(analytics.avg_loss).toBe(5);
+    expect(analytics.longest_loss_streak).toBe(2);
+  });
+
+  it('finds the longest win and loss streaks in closing order', () => {
+    // Listed newest first, the way the backend returns them
+    const trades = [trade(5, 40), trade(4, -5), trade(3, -5), trade(2, -5), trade(1, 10), trade(0, 10)];
+    const analytics = computeAnalytics(trades, 1000);
+    expect(analytics.longest_win_streak).toBe(2);
+    expect(analytics.longest_loss_streak).toBe(3);
+  });
+
+  it('measures drawdown and the ulcer index along the equity curve', () => {
+    // Equity 1000 -> 1100 -> 880 -> 930 -> 1130
+    const analytics = computeAnalytics([trade(0, 100), trade(1, -220), trade(2, 50), trade(3, 200)], 1000);
+    expect(analytics.total_pnl).toBe(130);
+    expect(analytics.total_pnl_pct).toBeCloseTo(13);
+    expect(analytics.max_drawdown).toBeCloseTo(0.2);
+    expect(analytics.max_drawdown_amount).toBeCloseTo(220);
+    expect(analytics.recovery_factor).toBeCloseTo(130 / 220);
+    // Drawdowns of 0%, 20%, 15.45% and 0% after each trade
+    expect(analytics.ulcer_index).toBeCloseTo(Math.sqrt((20 ** 2 + ((170 / 1100) * 100) ** 2) / 4));
+    expect(analytics.expectancy).toBeCloseTo(32.5);
+    expect(analytics.payoff_ratio).toBeCloseTo(350 / 3 / 220);
+  });
+
+  it('averages holding time from entry to exit', () => {
+    const analytics = computeAnalytics([trade(0, 10, 1), trade(1, -10, 3)], 1000);
+    expect(analytics.avg_holding_ms).toBe(2 * HOUR_MS);
+  });
+});
+
+describe('findDiscrepancies', () => {
+  const local = computeAnalytics([trade(0, 100), trade(1, -220), trade(2, 50), trade(3, 200)], 1000);
+
+  it('reports nothing when the backend agrees', () => {
+    expect(findDiscrepancies(backendFrom(local), local)).toEqual([]);
+  });
+
+  it('requires counts to match exactly', () => {
+    const discrepancies = findDiscrepancies({ ...backendFrom(local), total_trades: local.total_trades + 1 }, local);
+    expect(discrepancies).toEqual([
+      { key: 'total_trades', label: 'Total Trades', backend: local.total_trades + 1, local: local.total_trades },
+    ]);
+  });
+
+  it('lets other metrics differ within the tolerance', () => {
+    const backend = {
+      ...backendFrom(local),
+      // Within 1% of the value
+      avg_win: local.avg_win * 1.005,
+      // 2% apart, but a smaller gap than rounding to two decimals leaves
+      max_drawdown: local.max_drawdown + 0.004,
+    };
+    expect(findDiscrepancies(backend, local)).toEqual([]);
+  });
+
+  it('flags metrics that differ by more than the tolerance', () => {
+    const backend = { ...backendFrom(local), avg_win: local.avg_win * 1.02, max_drawdown: local.max_drawdown + 0.01 };
+    expect(findDiscrepancies(backend, local).map(d => d.key)).toEqual(['avg_win', 'max_drawdown']);
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the largest units that fit', () => {
+    expect(formatDuration(0)).toBe('0m');
+    expect(formatDuration(45 * 60000)).toBe('45m');
+    expect(formatDuration(3 * HOUR_MS + 15 * 60000)).toBe('3h 15m');
+    expect(formatDuration(52 * HOUR_MS)).toBe('2d 4h');
+  });
+});
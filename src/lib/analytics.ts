@@ -0,0 +1,172 @@
+// Performance metrics derived from the trade list alone, so the backend's own figures can be checked.
+// Pure functions over closed trades; open positions don't count until they are closed.
+import { type PerformanceMetrics, type TradeEntry } from '@/services/api';
+import { pnlAtPrice } from './positions';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface TradeAnalytics {
+  total_trades: number;
+  winning_trades: number;
+  losing_trades: number;
+  win_rate: number;
+  avg_win: number;
+  avg_loss: number;
+  profit_factor: number;
+  total_pnl: number;
+  total_pnl_pct: number;
+  // Largest fall from an equity peak, as a fraction of that peak and in account currency
+  max_drawdown: number;
+  max_drawdown_amount: number;
+  // Per-trade ratios scaled by the square root of the trade count, not annualized
+  sharpe_ratio: number;
+  sortino_ratio: number;
+  calmar_ratio: number;
+  // Average profit per trade in account currency
+  expectancy: number;
+  payoff_ratio: number;
+  recovery_factor: number;
+  // Root mean square of percentage drawdowns along the equity curve
+  ulcer_index: number;
+  avg_holding_ms: number;
+  longest_win_streak: number;
+  longest_loss_streak: number;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const mean = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+const closeTime = (trade: TradeEntry) => new Date(trade.exit_timestamp ?? trade.timestamp).getTime();
+
+// Closed trades in the order they closed, which is the order they moved the balance
+export function closedTradesInOrder(trades: TradeEntry[]) {
+  return trades.filter(trade => trade.trade_status !== 'OPEN').sort((a, b) => closeTime(a) - closeTime(b));
+}
+
+// Realized profit of a closed trade; partial closes are reported as trades of their own
+export function realizedPnl(trade: TradeEntry) {
+  return trade.exit_price === undefined ? 0 : pnlAtPrice(trade, trade.exit_price);
+}
+
+function longestStreak(pnls: number[], isPart: (pnl: number) => boolean) {
+  let longest = 0;
+  let current = 0;
+  pnls.forEach(pnl => {
+    current = isPart(pnl) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+// Zero wherever a ratio has nothing to divide by, e.g. the profit factor of a trader that never lost
+export function computeAnalytics(trades: TradeEntry[], initialBalance: number): TradeAnalytics {
+  const closed = closedTradesInOrder(trades);
+  const pnls = closed.map(realizedPnl);
+  // Breakeven trades count as losses, the way trade_status reports them
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl <= 0);
+  const grossWin = sum(wins);
+  const grossLoss = Math.abs(sum(losses));
+  const totalPnl = sum(pnls);
+
+  let equity = initialBalance;
+  let peak = equity;
+  let maxDrawdown = 0;
+  let maxDrawdownAmount = 0;
+  const drawdownsPct: number[] = [];
+  const returns = closed.map((trade, index) => {
+    const before = equity;
+    equity += pnls[index];
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    maxDrawdownAmount = Math.max(maxDrawdownAmount, peak - equity);
+    drawdownsPct.push(((peak - equity) / peak) * 100);
+    // The backend's figure when it sends one, which is the return on the balance at the time
+    return trade.actual_return_pct !== undefined ? trade.actual_return_pct / 100 : pnls[index] / before;
+  });
+
+  const meanReturn = mean(returns);
+  const variance = returns.length > 1 ? sum(returns.map(r => (r - meanReturn) ** 2)) / (returns.length - 1) : 0;
+  const downsideDeviation = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+  const scale = Math.sqrt(returns.length);
+
+  // Simple rather than compound annualization, since compounding a few days of results explodes
+  const periodMs = closed.length ? closeTime(closed[closed.length - 1]) - new Date(closed[0].timestamp).getTime() : 0;
+  const totalReturn = initialBalance > 0 ? totalPnl / initialBalance : 0;
+  const annualReturn = periodMs > 0 ? totalReturn * (YEAR_MS / periodMs) : 0;
+
+  const avgWin = wins.length ? grossWin / wins.length : 0;
+  const avgLoss = losses.length ? grossLoss / losses.length : 0;
+  const holdingTimes = closed.map(trade => closeTime(trade) - new Date(trade.timestamp).getTime());
+
+  return {
+    total_trades: closed.length,
+    winning_trades: wins.length,
+    losing_trades: losses.length,
+    win_rate: closed.length ? wins.length / closed.length : 0,
+    avg_win: avgWin,
+    avg_loss: avgLoss,
+    profit_factor: grossLoss > 0 ? grossWin / grossLoss : 0,
+    total_pnl: totalPnl,
+    total_pnl_pct: totalReturn * 100,
+    max_drawdown: maxDrawdown,
+    max_drawdown_amount: maxDrawdownAmount,
+    sharpe_ratio: variance > 0 ? (meanReturn / Math.sqrt(variance)) * scale : 0,
+    sortino_ratio: downsideDeviation > 0 ? (meanReturn / downsideDeviation) * scale : 0,
+    calmar_ratio: maxDrawdown > 0 ? annualReturn / maxDrawdown : 0,
+    expectancy: closed.length ? totalPnl / closed.length : 0,
+    payoff_ratio: avgLoss > 0 ? avgWin / avgLoss : 0,
+    recovery_factor: maxDrawdownAmount > 0 ? totalPnl / maxDrawdownAmount : 0,
+    ulcer_index: Math.sqrt(mean(drawdownsPct.map(d => d ** 2))),
+    avg_holding_ms: mean(holdingTimes),
+    longest_win_streak: longestStreak(pnls, pnl => pnl > 0),
+    longest_loss_streak: longestStreak(pnls, pnl => pnl <= 0),
+  };
+}
+
+type ComparedMetric = keyof PerformanceMetrics & keyof TradeAnalytics;
+
+export interface MetricDiscrepancy {
+  key: ComparedMetric;
+  label: string;
+  backend: number;
+  local: number;
+}
+
+// Counts have to match exactly; the rest may differ by rounding
+const COMPARED_METRICS: { key: ComparedMetric; label: string; exact?: boolean }[] = [
+  { key: 'total_trades', label: 'Total Trades', exact: true },
+  { key: 'winning_trades', label: 'Winning Trades', exact: true },
+  { key: 'losing_trades', label: 'Losing Trades', exact: true },
+  { key: 'win_rate', label: 'Win Rate' },
+  { key: 'avg_win', label: 'Average Win' },
+  { key: 'avg_loss', label: 'Average Loss' },
+  { key: 'profit_factor', label: 'Profit Factor' },
+  { key: 'max_drawdown', label: 'Max Drawdown' },
+  { key: 'total_pnl', label: 'Total P&L' },
+  { key: 'sharpe_ratio', label: 'Sharpe Ratio' },
+];
+
+// Enough to absorb a backend rounding to two decimals, without hiding a different formula
+const RELATIVE_TOLERANCE = 0.01;
+const ABSOLUTE_TOLERANCE = 0.005;
+
+// Metrics the backend reports differently from what its own trade list adds up to
+export function findDiscrepancies(backend: PerformanceMetrics, local: TradeAnalytics): MetricDiscrepancy[] {
+  return COMPARED_METRICS
+    .filter(({ key, exact }) => {
+      const difference = Math.abs(backend[key] - local[key]);
+      if (exact) return difference > 0;
+      return difference > ABSOLUTE_TOLERANCE && difference > RELATIVE_TOLERANCE * Math.max(Math.abs(backend[key]), Math.abs(local[key]));
+    })
+    .map(({ key, label }) => ({ key, label, backend: backend[key], local: local[key] }));
+}
+
+// e.g. "2d 4h", "3h 15m" or "45m"
+export function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
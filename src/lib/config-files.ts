@@ -0,0 +1,75 @@
+// Reading and writing trader configs as JSON/YAML files, so they can live outside the dashboard
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { traderConfigSchema, type TraderConfig } from '@/services/schemas';
+import { validateTraderSettings } from './trader-config';
+
+export type ConfigFileFormat = 'json' | 'yaml';
+
+const CONFIG_FILE_VERSION = 1;
+
+export interface ImportedConfig {
+  // Position in the file, for configs too broken to have a usable name
+  index: number;
+  name: string;
+  config: TraderConfig | null;
+  errors: string[];
+}
+
+export function serializeTraderConfigs(configs: TraderConfig[], format: ConfigFileFormat) {
+  const document = { version: CONFIG_FILE_VERSION, traders: configs };
+  return format === 'yaml' ? stringifyYaml(document) : JSON.stringify(document, null, 2);
+}
+
+export function configFileName(baseName: string, format: ConfigFileFormat) {
+  const safeName = baseName.trim().replace(/[^a-z0-9_-]+/gi, '_') || 'traders';
+  return `${safeName}.${format === 'yaml' ? 'yaml' : 'json'}`;
+}
+
+// Accepts our own export envelope, a bare list of configs or a single config
+function extractEntries(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+  if (document && typeof document === 'object' && 'traders' in document) {
+    const { traders } = document as { traders: unknown };
+    if (Array.isArray(traders)) return traders;
+    throw new Error('"traders" must be a list of trader configs');
+  }
+  if (document && typeof document === 'object') return [document];
+  throw new Error('The file does not contain any trader configs');
+}
+
+function validateEntry(entry: unknown, index: number, takenNames: Set<string>): ImportedConfig {
+  const rawName = entry && typeof entry === 'object' ? (entry as { name?: unknown }).name : undefined;
+  const name = typeof rawName === 'string' && rawName.trim() ? rawName.trim() : `Config ${index + 1}`;
+
+  const result = traderConfigSchema.strict().safeParse(entry);
+  if (!result.success) {
+    const errors = result.error.issues.map(issue =>
+      issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    return { index, name, config: null, errors };
+  }
+
+  const config = { ...result.data, name: result.data.name.trim() } as TraderConfig;
+  const errors = Object.values(validateTraderSettings(config));
+  if (!config.name) {
+    errors.unshift('Trader name is required');
+  } else if (takenNames.has(config.name)) {
+    errors.unshift(`A trader named ${config.name} already exists`);
+  }
+  takenNames.add(config.name);
+
+  return { index, name, config: errors.length ? null : config, errors };
+}
+
+// Throws when the file itself can't be read; per-config problems are reported on each entry
+export function parseTraderConfigFile(text: string, fileName: string, existingNames: string[] = []): ImportedConfig[] {
+  let document: unknown;
+  try {
+    document = /\.json$/i.test(fileName) ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const takenNames = new Set(existingNames);
+  return extractEntries(document).map((entry, index) => validateEntry(entry, index, takenNames));
+}
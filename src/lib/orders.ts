@@ -0,0 +1,71 @@
+// Sizing and pre-trade checks for manual orders; the same rules the trader applies to its own entries
+import { type ManualOrder, type TradeEntry, type TraderStatus } from '@/services/api';
+import { validateLevels } from './positions';
+import { effectiveSettings } from './symbol-overrides';
+
+export interface OrderCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+// Size so that hitting the stop loses the symbol's risk_per_trade of the balance, capped by available margin
+export function riskBasedQuantity(status: TraderStatus, symbol: string, price: number, stopLoss: number, leverage: number) {
+  const stopDistance = Math.abs(price - stopLoss);
+  if (!(stopDistance > 0) || !(price > 0)) return 0;
+  const riskAmount = status.balance * effectiveSettings(status.config, symbol).risk_per_trade;
+  return Math.min(riskAmount / stopDistance, (status.balance * leverage) / price);
+}
+
+export function preTradeChecks(status: TraderStatus, trades: TradeEntry[], now = Date.now()): OrderCheck[] {
+  const { config } = status;
+  const openCount = trades.filter(t => t.trade_status === 'OPEN').length;
+
+  const lastOpened = Math.max(0, ...trades.map(t => new Date(t.timestamp).getTime()));
+  const cooldownMs = config.cooldown_minutes * 60000;
+  const cooldownLeft = Math.max(0, lastOpened + cooldownMs - now);
+
+  // Same threshold the trader uses: today's loss against the balance it started the day with
+  const dayLoss = Math.max(0, -status.daily_pnl);
+  const lossLimit = (status.balance + dayLoss) * config.daily_loss_limit;
+
+  return [
+    {
+      label: 'Open trades',
+      passed: openCount < config.max_open_trades,
+      detail: `${openCount} of ${config.max_open_trades} allowed`,
+    },
+    {
+      label: 'Daily loss limit',
+      passed: dayLoss < lossLimit,
+      detail: `$${dayLoss.toFixed(2)} lost today, limit $${lossLimit.toFixed(2)}`,
+    },
+    {
+      label: 'Cooldown',
+      passed: cooldownLeft === 0,
+      detail: cooldownLeft === 0
+        ? `${config.cooldown_minutes} min since the last entry has passed`
+        : `${Math.ceil(cooldownLeft / 60000)} min until the next entry is allowed`,
+    },
+  ];
+}
+
+// Field -> problem with the ticket itself, checked against the trader's settings and the current price
+export function validateOrder(order: ManualOrder, status: TraderStatus, price: number): Record<string, string> {
+  const errors = validateLevels(order.side, price, order);
+
+  if (!status.config.symbols.includes(order.symbol)) {
+    errors.symbol = `${order.symbol} is not traded by this trader`;
+  }
+  const maxLeverage = effectiveSettings(status.config, order.symbol).leverage;
+  if (!Number.isInteger(order.leverage) || order.leverage < 1 || order.leverage > maxLeverage) {
+    errors.leverage = `Leverage must be a whole number from 1 to ${maxLeverage}`;
+  }
+  if (!(order.quantity > 0)) {
+    errors.quantity = 'Quantity must be greater than zero';
+  } else if (price > 0 && (order.quantity * price) / order.leverage > status.balance) {
+    errors.quantity = 'Not enough balance to cover the margin';
+  }
+
+  return errors;
+}
@@ -0,0 +1,46 @@
+// Price and risk arithmetic for open positions, used to preview manual interventions
+import { type TradeEntry, type TradeLevels } from '@/services/api';
+
+const direction = (trade: TradeEntry) => (trade.side === 'LONG' ? 1 : -1);
+
+// Trades carry ROE rather than the last price; current_roe is the leveraged return as a fraction
+export function markPrice(trade: TradeEntry) {
+  return trade.entry_price * (1 + (trade.current_roe / trade.leverage) * direction(trade));
+}
+
+export function pnlAtPrice(trade: TradeEntry, price: number, quantity = trade.quantity) {
+  return (price - trade.entry_price) * quantity * direction(trade);
+}
+
+// Loss if the stop is hit from entry; negative when the stop already locks in a profit
+export function riskAtStop(trade: TradeEntry, stopLoss: number, quantity = trade.quantity) {
+  return -pnlAtPrice(trade, stopLoss, quantity);
+}
+
+export function rewardAtTarget(trade: TradeEntry, takeProfit: number, quantity = trade.quantity) {
+  return pnlAtPrice(trade, takeProfit, quantity);
+}
+
+// Field -> problem; the stop and target must sit on either side of the price the position is valued at
+export function validateLevels(side: TradeEntry['side'], price: number, levels: TradeLevels): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const below = side === 'LONG';
+
+  if (!Number.isFinite(levels.stop_loss) || levels.stop_loss <= 0) {
+    errors.stop_loss = 'Stop loss must be a positive price';
+  } else if (below ? levels.stop_loss >= price : levels.stop_loss <= price) {
+    errors.stop_loss = `Stop loss must be ${below ? 'below' : 'above'} the current price`;
+  }
+
+  if (!Number.isFinite(levels.take_profit) || levels.take_profit <= 0) {
+    errors.take_profit = 'Take profit must be a positive price';
+  } else if (below ? levels.take_profit <= price : levels.take_profit >= price) {
+    errors.take_profit = `Take profit must be ${below ? 'above' : 'below'} the current price`;
+  }
+
+  return errors;
+}
+
+export function validateTradeLevels(trade: TradeEntry, levels: TradeLevels) {
+  return validateLevels(trade.side, markPrice(trade), levels);
+}
@@ -0,0 +1,191 @@
+// Entry and exit rules: the operands a condition may compare, how a rule tree reads as text,
+// how it is evaluated against indicator readings, and what makes one invalid
+import { z } from 'zod';
+import {
+  type IndicatorData,
+  type RuleCondition,
+  type RuleGroup,
+  type RuleOperand,
+  type TraderSettings,
+  type TradingRules,
+} from '@/services/api';
+
+export type RuleSetKey = keyof TradingRules;
+export type RuleNode = RuleCondition | RuleGroup;
+export type RuleOperator = RuleCondition['operator'];
+
+export const RULE_SETS: { key: RuleSetKey; label: string; description: string }[] = [
+  { key: 'long_entry', label: 'Long Entry', description: 'Opens a long when it holds; without it the strategy\'s buy signal is used' },
+  { key: 'long_exit', label: 'Long Exit', description: 'Closes an open long when it holds, besides its stop loss and take profit' },
+  { key: 'short_entry', label: 'Short Entry', description: 'Opens a short when it holds; without it the strategy\'s sell signal is used' },
+  { key: 'short_exit', label: 'Short Exit', description: 'Closes an open short when it holds, besides its stop loss and take profit' },
+];
+
+type IndicatorField = Exclude<keyof IndicatorData, 'symbol' | 'signal' | 'last_updated'>;
+
+export const INDICATOR_OPERANDS: { field: IndicatorField; label: string }[] = [
+  { field: 'price', label: 'Price' },
+  { field: 'rsi', label: 'RSI' },
+  { field: 'bollinger_upper', label: 'Upper Bollinger' },
+  { field: 'bollinger_middle', label: 'Middle Bollinger' },
+  { field: 'bollinger_lower', label: 'Lower Bollinger' },
+  { field: 'ma_short', label: 'MA Short' },
+  { field: 'ma_long', label: 'MA Long' },
+  { field: 'volume', label: 'Volume' },
+  { field: 'volume_avg', label: 'Average Volume' },
+  { field: 'signal_strength', label: 'Signal Strength' },
+];
+
+// Thresholds a condition can compare against, so tuning them doesn't mean rewriting the rule
+type SettingOperandKey = 'rsi_overbought' | 'rsi_oversold' | 'volume_threshold';
+
+export const SETTING_OPERANDS: { key: SettingOperandKey; label: string }[] = [
+  { key: 'rsi_overbought', label: 'RSI Overbought' },
+  { key: 'rsi_oversold', label: 'RSI Oversold' },
+  { key: 'volume_threshold', label: 'Volume Threshold' },
+];
+
+export const RULE_OPERATORS: RuleOperator[] = ['<', '<=', '>', '>='];
+
+// Groups nested deeper than this are hard to read back; the builder stops offering them
+export const MAX_RULE_DEPTH = 3;
+
+export const defaultCondition = (): RuleCondition => ({
+  type: 'condition',
+  left: { type: 'indicator', field: 'rsi' },
+  operator: '<',
+  right: { type: 'setting', key: 'rsi_oversold' },
+});
+
+export const defaultRuleGroup = (): RuleGroup => ({ type: 'group', combinator: 'and', conditions: [defaultCondition()] });
+
+export const isRuleGroup = (node: RuleNode): node is RuleGroup => node.type === 'group';
+
+export function hasRules(rules: TradingRules | undefined) {
+  return RULE_SETS.some(set => rules?.[set.key] !== undefined);
+}
+
+// Drops unset rule sets; undefined when none are left
+export function pruneRules(rules: TradingRules | undefined): TradingRules | undefined {
+  const pruned: TradingRules = {};
+  RULE_SETS.forEach(set => {
+    if (rules?.[set.key]) pruned[set.key] = rules[set.key];
+  });
+  return hasRules(pruned) ? pruned : undefined;
+}
+
+export function describeOperand(operand: RuleOperand) {
+  switch (operand.type) {
+    case 'indicator':
+      return INDICATOR_OPERANDS.find(o => o.field === operand.field)?.label ?? operand.field;
+    case 'setting':
+      return SETTING_OPERANDS.find(o => o.key === operand.key)?.label ?? operand.key;
+    default:
+      return operand.value.toLocaleString();
+  }
+}
+
+// e.g. "RSI < RSI Oversold AND (Price < Lower Bollinger OR Volume > Volume Threshold)"
+export function describeRule(group: RuleGroup): string {
+  const joiner = group.combinator === 'or' ? ' OR ' : ' AND ';
+  return group.conditions
+    .map(node => isRuleGroup(node)
+      ? `(${describeRule(node)})`
+      : `${describeOperand(node.left)} ${node.operator} ${describeOperand(node.right)}`)
+    .join(joiner);
+}
+
+function operandValue(operand: RuleOperand, indicators: IndicatorData, settings: Pick<TraderSettings, SettingOperandKey>) {
+  switch (operand.type) {
+    case 'indicator':
+      return Number(indicators[operand.field as IndicatorField]);
+    case 'setting':
+      return Number(settings[operand.key as SettingOperandKey]);
+    default:
+      return operand.value;
+  }
+}
+
+function compare(left: number, operator: RuleOperator, right: number) {
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+// Settings operands are read from the symbol's effective settings; unknown operands never match
+export function evaluateRule(
+  group: RuleGroup,
+  indicators: IndicatorData,
+  settings: Pick<TraderSettings, SettingOperandKey>,
+): boolean {
+  if (group.conditions.length === 0) return false;
+  const matches = (node: RuleNode) => isRuleGroup(node)
+    ? evaluateRule(node, indicators, settings)
+    : compare(operandValue(node.left, indicators, settings), node.operator, operandValue(node.right, indicators, settings));
+  return group.combinator === 'or' ? group.conditions.some(matches) : group.conditions.every(matches);
+}
+
+function operandProblem(operand: RuleOperand) {
+  if (operand.type === 'indicator' && !INDICATOR_OPERANDS.some(o => o.field === operand.field)) {
+    return `${operand.field} is not an indicator`;
+  }
+  if (operand.type === 'setting' && !SETTING_OPERANDS.some(o => o.key === operand.key)) {
+    return `${operand.key} is not a setting rules can use`;
+  }
+  if (operand.type === 'value' && (typeof operand.value !== 'number' || Number.isNaN(operand.value))) {
+    return 'Enter a number to compare with';
+  }
+  return undefined;
+}
+
+// Problems are reported on the group or condition they belong to, at its path in the config
+function ruleProblems(rules: TradingRules | undefined) {
+  const problems: { path: (string | number)[]; message: string }[] = [];
+  const walk = (group: RuleGroup, path: (string | number)[], depth: number) => {
+    if (group.conditions.length === 0) {
+      problems.push({ path, message: 'Add a condition or remove this group' });
+    }
+    if (depth > MAX_RULE_DEPTH) {
+      problems.push({ path, message: `Rules can nest at most ${MAX_RULE_DEPTH} groups deep` });
+    }
+    group.conditions.forEach((node, index) => {
+      const nodePath = [...path, 'conditions', index];
+      if (isRuleGroup(node)) {
+        walk(node, nodePath, depth + 1);
+        return;
+      }
+      const message = operandProblem(node.left) ?? operandProblem(node.right)
+        ?? (node.left.type === 'value' && node.right.type === 'value' ? 'Compare an indicator or setting, not two numbers' : undefined);
+      if (message) problems.push({ path: nodePath, message });
+    });
+  };
+  RULE_SETS.forEach(set => {
+    const group = rules?.[set.key];
+    if (group) walk(group, ['rules', set.key], 1);
+  });
+  return problems;
+}
+
+// Reports rule problems as form issues, chained onto the settings schemas
+export function entryExitRules(settings: { rules?: TradingRules }, ctx: z.RefinementCtx) {
+  ruleProblems(settings.rules).forEach(({ path, message }) => ctx.addIssue({ code: 'custom', path, message }));
+}
+
+// Where validation reports a problem with a rule node; the builder looks errors up by the same key
+export const ruleErrorKey = (path: (string | number)[]) => path.join('.');
+
+// Rule node path -> first problem with it
+export function validateRules(rules: TradingRules | undefined) {
+  const errors: Record<string, string> = {};
+  ruleProblems(rules).forEach(({ path, message }) => {
+    errors[ruleErrorKey(path)] ??= message;
+  });
+  return errors;
+}
@@ -0,0 +1,215 @@
+// Trading session schedules: when a trader should be running, evaluated in the schedule's time zone
+import { type TradingSchedule } from '@/services/api';
+
+export type ScheduleWindow = TradingSchedule['windows'][number];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// A week plus a day covers every weekly window and the blackout day that may delay it
+const LOOKAHEAD_DAYS = 8;
+
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function defaultSchedule(): TradingSchedule {
+  return {
+    enabled: true,
+    timezone: localTimeZone(),
+    windows: [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' })),
+    blackout_dates: [],
+  };
+}
+
+export function parseTime(time: string) {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) return NaN;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= MINUTES_PER_DAY ? minutes : NaN;
+}
+
+export function formatTime(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    zonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Field -> problem, in the same shape as the other settings validators
+export function validateSchedule(schedule: TradingSchedule): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!isValidTimeZone(schedule.timezone)) {
+    errors.timezone = `${schedule.timezone} is not a known time zone`;
+  }
+  const badWindow = schedule.windows.find(w => !(parseTime(w.start) < parseTime(w.end)));
+  if (badWindow) {
+    errors.windows = `${WEEKDAYS[badWindow.day]} ${badWindow.start}-${badWindow.end} must end after it starts`;
+  }
+  if (schedule.enabled && schedule.windows.length === 0) {
+    errors.windows = 'Add at least one trading window or turn the schedule off';
+  }
+  if (schedule.blackout_dates.some(date => !DATE_PATTERN.test(date))) {
+    errors.blackout_dates = 'Blackout dates must be written as YYYY-MM-DD';
+  }
+  return errors;
+}
+
+interface ZonedTime {
+  date: string;
+  day: number;
+  minutes: number;
+}
+
+// Building a formatter is far slower than using one, and schedules are evaluated on every render
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedTime(at: Date, timeZone: string): ZonedTime {
+  const parts = Object.fromEntries(zonedFormatter(timeZone).formatToParts(at).map(part => [part.type, part.value]));
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    day: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// The instant a wall-clock time in the zone occurs; the second pass settles DST transitions
+function zonedInstant(date: string, minutes: number, timeZone: string) {
+  const wallClock = new Date(`${date}T00:00:00Z`).getTime() + minutes * 60000;
+  const offsetAt = (instant: number) => {
+    const zoned = zonedTime(new Date(instant), timeZone);
+    return new Date(`${zoned.date}T00:00:00Z`).getTime() + zoned.minutes * 60000 - Math.floor(instant / 60000) * 60000;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+function addDays(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function isWithinSchedule(schedule: TradingSchedule, at: Date) {
+  const zoned = zonedTime(at, schedule.timezone);
+  if (schedule.blackout_dates.includes(zoned.date)) return false;
+  return schedule.windows.some(w =>
+    w.day === zoned.day && parseTime(w.start) <= zoned.minutes && zoned.minutes < parseTime(w.end)
+  );
+}
+
+export interface ScheduleStatus {
+  active: boolean;
+  blackout: boolean;
+  // When the trader is next started (if inactive) or stopped (if active); null if not within a week
+  nextChange: Date | null;
+  // Stopped by hand, so the schedule won't start it until it is started again
+  paused: boolean;
+}
+
+// null when the trader has no schedule, or it is switched off, or it can't be evaluated
+export function getScheduleStatus(schedule: TradingSchedule | undefined, paused = false, now = new Date()): ScheduleStatus | null {
+  if (!schedule?.enabled || !isValidTimeZone(schedule.timezone)) return null;
+
+  const active = isWithinSchedule(schedule, now);
+  const today = zonedTime(now, schedule.timezone).date;
+
+  // State can only flip at a window edge or at midnight, when a blackout day begins or ends
+  const candidates: Date[] = [];
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(today, offset);
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const boundaries = [0, ...schedule.windows
+      .filter(w => w.day === day)
+      .flatMap(w => [parseTime(w.start), parseTime(w.end)])
+      .filter(minutes => minutes < MINUTES_PER_DAY)];
+    boundaries.forEach(minutes => candidates.push(zonedInstant(date, minutes, schedule.timezone)));
+  }
+
+  const nextChange = candidates
+    .filter(candidate => candidate.getTime() > now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime())
+    .find(candidate => isWithinSchedule(schedule, candidate) !== active) ?? null;
+
+  return {
+    active,
+    blackout: schedule.blackout_dates.includes(today),
+    nextChange,
+    paused,
+  };
+}
+
+// "17:00" today, "Mon 09:00" later in the week, in the viewer's own time zone
+export function formatScheduleChange(at: Date, now = new Date()) {
+  const time = at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (at.toDateString() === now.toDateString()) return time;
+  return `${at.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+}
+
+export function describeScheduleStatus(status: ScheduleStatus, now = new Date()) {
+  const next = status.nextChange ? formatScheduleChange(status.nextChange, now) : null;
+  const label = status.active ? 'In session' : status.blackout ? 'Blackout' : 'Off hours';
+  if (status.paused) return `${label}, paused until started`;
+  if (status.active) return next ? `In session until ${next}` : label;
+  return next ? `${label}, starts ${next}` : label;
+}
+
+// One-line summary for diffs and read-only views
+export function describeSchedule(schedule: TradingSchedule | undefined) {
+  if (!schedule?.enabled) return 'Not scheduled';
+  const days = WEEKDAYS.map((name, day) => {
+    const windows = schedule.windows.filter(w => w.day === day);
+    return windows.length ? `${name.slice(0, 3)} ${windows.map(w => `${w.start}-${w.end}`).join(', ')}` : null;
+  }).filter(Boolean);
+  const blackouts = schedule.blackout_dates.length
+    ? `; blackout ${[...schedule.blackout_dates].sort().join(', ')}`
+    : '';
+  return `${days.join('; ') || 'No windows'} (${schedule.timezone})${blackouts}`;
+}
+
+// The weekly grid edits whole hours; windows that start or end mid-hour show as covering that hour
+export function windowsToHours(windows: ScheduleWindow[], day: number) {
+  return Array.from({ length: 24 }, (_, hour) => windows.some(w =>
+    w.day === day && parseTime(w.start) < (hour + 1) * 60 && parseTime(w.end) > hour * 60
+  ));
+}
+
+export function hoursToWindows(hours: boolean[], day: number): ScheduleWindow[] {
+  const windows: ScheduleWindow[] = [];
+  hours.forEach((on, hour) => {
+    if (!on) return;
+    const previous = windows[windows.length - 1];
+    if (previous && parseTime(previous.end) === hour * 60) {
+      previous.end = formatTime((hour + 1) * 60);
+    } else {
+      windows.push({ day, start: formatTime(hour * 60), end: formatTime((hour + 1) * 60) });
+    }
+  });
+  return windows;
+}
@@ -0,0 +1,171 @@
+// Strategy definitions: the built-in fallback, where each parameter's value lives in a trader config,
+// and the validation rules generated from a definition's ranges
+import { z } from 'zod';
+import { type StrategyDefinition, type StrategyParameter, type TraderSettings } from '@/services/api';
+import { type SettingChange } from './trader-config';
+
+export const CLASSIC_STRATEGY_ID = 'rsi_bollinger_ma';
+
+// What every trader ran before strategies were pluggable, used when the backend publishes no definitions.
+// Its parameters keep their top-level config fields, so older backends and saved configs read them unchanged.
+export const CLASSIC_STRATEGY: StrategyDefinition = {
+  id: CLASSIC_STRATEGY_ID,
+  name: 'RSI + Bollinger + MA crossover',
+  description: 'Enters when two of RSI, Bollinger Bands and the moving-average crossover agree on above-threshold volume',
+  parameters: [
+    { key: 'rsi_period', label: 'RSI Period', type: 'integer', min: 5, max: 50, default: 14, group: 'RSI', help: 'Candles the RSI is averaged over' },
+    { key: 'rsi_overbought', label: 'RSI Overbought', type: 'integer', min: 60, max: 90, default: 70, group: 'RSI', help: 'RSI at or above this counts towards a short' },
+    { key: 'rsi_oversold', label: 'RSI Oversold', type: 'integer', min: 10, max: 40, default: 30, group: 'RSI', help: 'RSI at or below this counts towards a long' },
+    { key: 'bollinger_period', label: 'Bollinger Period', type: 'integer', min: 10, max: 50, default: 20, group: 'Bollinger Bands', help: 'Candles in the average the bands are drawn around' },
+    { key: 'bollinger_std', label: 'Bollinger Std Dev', type: 'number', min: 1, max: 3, step: 0.1, default: 2, group: 'Bollinger Bands', help: 'Band width in standard deviations' },
+    { key: 'ma_short', label: 'MA Short Period', type: 'integer', min: 5, max: 50, default: 10, group: 'Moving Averages' },
+    { key: 'ma_long', label: 'MA Long Period', type: 'integer', min: 10, max: 100, default: 20, group: 'Moving Averages', help: 'Must be longer than the short period' },
+  ],
+};
+
+type LegacyKey = 'rsi_period' | 'rsi_overbought' | 'rsi_oversold' | 'bollinger_period' | 'bollinger_std' | 'ma_short' | 'ma_long';
+
+const LEGACY_KEYS = new Set(CLASSIC_STRATEGY.parameters.map(param => param.key));
+
+const DEFAULT_GROUP = 'Parameters';
+
+export type ParameterValue = number | boolean;
+
+export function isLegacyParameter(param: StrategyParameter) {
+  return LEGACY_KEYS.has(param.key);
+}
+
+export function traderStrategyId(settings: { strategy?: string }) {
+  return settings.strategy ?? CLASSIC_STRATEGY_ID;
+}
+
+export function usesClassicStrategy(settings: { strategy?: string }) {
+  return traderStrategyId(settings) === CLASSIC_STRATEGY_ID;
+}
+
+// Undefined for a strategy the backend no longer offers
+export function findStrategy(strategies: StrategyDefinition[], id: string) {
+  return strategies.find(strategy => strategy.id === id) ?? (id === CLASSIC_STRATEGY_ID ? CLASSIC_STRATEGY : undefined);
+}
+
+export function strategyName(strategies: StrategyDefinition[], id: string) {
+  return findStrategy(strategies, id)?.name ?? id;
+}
+
+// Where a parameter's value lives in the config, as a dotted form path
+export function parameterPath(param: StrategyParameter) {
+  return isLegacyParameter(param) ? param.key : `strategy_params.${param.key}`;
+}
+
+export function parameterValue(settings: TraderSettings, param: StrategyParameter): ParameterValue {
+  const value = isLegacyParameter(param) ? settings[param.key as LegacyKey] : settings.strategy_params?.[param.key];
+  return value ?? param.default;
+}
+
+export function withParameterValue<T extends TraderSettings>(settings: T, param: StrategyParameter, value: ParameterValue): T {
+  if (isLegacyParameter(param)) return { ...settings, [param.key]: value };
+  return { ...settings, strategy_params: { ...settings.strategy_params, [param.key]: value } };
+}
+
+// Values the new strategy shares with the current one are kept; the rest start at their defaults
+export function selectStrategy<T extends TraderSettings>(settings: T, definition: StrategyDefinition): T {
+  const params: Record<string, ParameterValue> = {};
+  definition.parameters
+    .filter(param => !isLegacyParameter(param))
+    .forEach(param => {
+      params[param.key] = settings.strategy_params?.[param.key] ?? param.default;
+    });
+  return { ...settings, strategy: definition.id, strategy_params: Object.keys(params).length > 0 ? params : undefined };
+}
+
+export function groupParameters(definition: StrategyDefinition) {
+  const groups: { name: string; parameters: StrategyParameter[] }[] = [];
+  definition.parameters.forEach(param => {
+    const name = param.group ?? DEFAULT_GROUP;
+    const group = groups.find(g => g.name === name);
+    if (group) group.parameters.push(param);
+    else groups.push({ name, parameters: [param] });
+  });
+  return groups;
+}
+
+// Percentages are stored as fractions; round away float noise such as 0.07 * 100
+export const toPercent = (value: number) => Number((value * 100).toFixed(4));
+
+export function formatParameterValue(param: StrategyParameter, value: ParameterValue) {
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (param.type === 'percent') return `${toPercent(value)}%`;
+  return value.toLocaleString();
+}
+
+// Range and type rules taken from the definition, reported at each parameter's form path
+export function strategyRules(definition: StrategyDefinition) {
+  return (settings: object, ctx: z.RefinementCtx) => {
+    definition.parameters.forEach(param => {
+      const value = parameterValue(settings as TraderSettings, param);
+      const path = parameterPath(param).split('.');
+      const report = (message: string) => ctx.addIssue({ code: 'custom', path, message });
+
+      if (param.type === 'boolean') {
+        if (typeof value !== 'boolean') report(`${param.label} must be on or off`);
+        return;
+      }
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        report(`${param.label} must be a number`);
+      } else if (param.type === 'integer' && !Number.isInteger(value)) {
+        report(`${param.label} must be a whole number`);
+      } else if (param.min !== undefined && value < param.min) {
+        report(`${param.label} must be at least ${formatParameterValue(param, param.min)}`);
+      } else if (param.max !== undefined && value > param.max) {
+        report(`${param.label} must be at most ${formatParameterValue(param, param.max)}`);
+      }
+    });
+  };
+}
+
+// Form path -> first problem, in the same shape as validateTraderSettings
+export function validateStrategySettings(settings: TraderSettings, definition: StrategyDefinition) {
+  const errors: Record<string, string> = {};
+  const result = z.object({}).passthrough().superRefine(strategyRules(definition)).safeParse(settings);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      errors[issue.path.join('.')] ??= issue.message;
+    });
+  }
+  return errors;
+}
+
+// Strategy switches and changes to parameters without a top-level field; the others are diffed as settings
+export function diffStrategy(before: TraderSettings, after: TraderSettings, strategies: StrategyDefinition[]): SettingChange[] {
+  const changes: SettingChange[] = [];
+  const beforeId = traderStrategyId(before);
+  const afterId = traderStrategyId(after);
+  if (beforeId !== afterId) {
+    changes.push({
+      key: 'strategy',
+      label: 'Strategy',
+      before: strategyName(strategies, beforeId),
+      after: strategyName(strategies, afterId),
+      increasesRisk: false,
+    });
+  }
+
+  const definitions = [findStrategy(strategies, afterId), findStrategy(strategies, beforeId)];
+  const keys = new Set([...Object.keys(before.strategy_params ?? {}), ...Object.keys(after.strategy_params ?? {})]);
+  keys.forEach(key => {
+    const beforeValue = before.strategy_params?.[key];
+    const afterValue = after.strategy_params?.[key];
+    if (beforeValue === afterValue) return;
+    const param = definitions.flatMap(definition => definition?.parameters ?? []).find(p => p.key === key);
+    const format = (value: ParameterValue | undefined) =>
+      value === undefined ? 'none' : param ? formatParameterValue(param, value) : String(value);
+    changes.push({
+      key: 'strategy_params',
+      label: param?.label ?? key,
+      before: format(beforeValue),
+      after: format(afterValue),
+      increasesRisk: false,
+    });
+  });
+  return changes;
+}
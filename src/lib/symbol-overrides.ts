@@ -0,0 +1,67 @@
+// Per-symbol settings: which ones a symbol may override and how its effective values are worked out
+import { type SymbolOverride, type TraderSettings } from '@/services/api';
+
+export type OverridableKey = keyof SymbolOverride;
+export type SymbolOverrides = Record<string, SymbolOverride>;
+
+// Sizing and signal settings; limits that span the whole account (daily loss, open trades, cooldown) stay trader-wide
+export const OVERRIDABLE_KEYS: OverridableKey[] = [
+  'risk_per_trade',
+  'leverage',
+  'rsi_period',
+  'rsi_overbought',
+  'rsi_oversold',
+  'bollinger_period',
+  'bollinger_std',
+  'ma_short',
+  'ma_long',
+];
+
+type OverridableSettings = Pick<TraderSettings, OverridableKey> & { symbol_overrides?: SymbolOverrides };
+
+export function symbolOverride(settings: { symbol_overrides?: SymbolOverrides }, symbol: string): SymbolOverride {
+  return settings.symbol_overrides?.[symbol] ?? {};
+}
+
+export function isOverridden(settings: { symbol_overrides?: SymbolOverrides }, symbol: string, key: OverridableKey) {
+  return symbolOverride(settings, symbol)[key] !== undefined;
+}
+
+// The values the trader actually uses for one symbol
+export function effectiveSettings<T extends OverridableSettings>(settings: T, symbol: string): T {
+  const effective = { ...settings };
+  const override = symbolOverride(settings, symbol);
+  OVERRIDABLE_KEYS.forEach(key => {
+    if (override[key] !== undefined) effective[key] = override[key] as T[OverridableKey];
+  });
+  return effective;
+}
+
+// Symbols that use the trader-wide value of a setting
+export function inheritingSymbols(settings: Pick<TraderSettings, 'symbols' | 'symbol_overrides'>, key: OverridableKey) {
+  return settings.symbols.filter(symbol => !isOverridden(settings, symbol, key));
+}
+
+// Drops overrides for symbols the trader no longer trades and empty entries; undefined when nothing is left
+export function pruneOverrides(overrides: SymbolOverrides | undefined, symbols: string[]): SymbolOverrides | undefined {
+  const pruned: SymbolOverrides = {};
+  symbols.forEach(symbol => {
+    const entries = Object.entries(overrides?.[symbol] ?? {}).filter(([, value]) => value !== undefined);
+    if (entries.length > 0) pruned[symbol] = Object.fromEntries(entries);
+  });
+  return Object.keys(pruned).length > 0 ? pruned : undefined;
+}
+
+// Sets or, with undefined, clears one symbol's override of one setting
+export function setOverride(
+  overrides: SymbolOverrides | undefined,
+  symbols: string[],
+  symbol: string,
+  key: OverridableKey,
+  value: number | undefined,
+) {
+  return pruneOverrides({ ...overrides, [symbol]: { ...overrides?.[symbol], [key]: value } }, symbols);
+}
+
+// Where validation reports a problem with one symbol's override
+export const overrideErrorKey = (symbol: string, key: OverridableKey) => `symbol_overrides.${symbol}.${key}`;
@@ -0,0 +1,106 @@
+// Exchange symbol catalog lookups, shared by the symbol picker, the settings forms and the mock backend
+import { z } from 'zod';
+import { type SymbolInfo, type TraderSettings } from '@/services/api';
+import { inheritingSymbols, symbolOverride, type SymbolOverrides } from './symbol-overrides';
+import { settingsErrorKey } from './trader-config';
+
+export const DELISTED = 'DELISTED';
+
+export function findSymbol(catalog: SymbolInfo[], symbol: string) {
+  return catalog.find(info => info.symbol === symbol);
+}
+
+export function isTradable(info: SymbolInfo) {
+  return info.status === 'TRADING';
+}
+
+// Why a symbol can't be traded at all; halted pairs may resume, so only unknown and delisted ones are refused
+export function symbolProblem(catalog: SymbolInfo[], symbol: string): string | undefined {
+  const info = findSymbol(catalog, symbol);
+  if (!info) return `${symbol} is not listed on the exchange`;
+  if (info.status === DELISTED) return `${symbol} has been delisted`;
+  return undefined;
+}
+
+// Decimal places a tick size needs, e.g. 0.00001 -> 5 and 0.25 -> 2
+function tickDecimals(tickSize: number) {
+  let decimals = 0;
+  while (decimals < 12 && Math.abs(Math.round(tickSize * 10 ** decimals) - tickSize * 10 ** decimals) > 1e-9) decimals++;
+  return decimals;
+}
+
+// At least cents, and as many places as the symbol's tick needs; about five significant digits
+// while the catalog hasn't loaded, so sub-dollar prices aren't rounded away
+export function priceDecimals(price: number, info: SymbolInfo | undefined) {
+  if (info) return Math.max(2, tickDecimals(info.tick_size));
+  return price > 0 ? Math.max(2, 4 - Math.floor(Math.log10(price))) : 2;
+}
+
+export function formatPrice(price: number, info: SymbolInfo | undefined) {
+  return price.toFixed(priceDecimals(price, info));
+}
+
+// Nearest price the exchange accepts; without the catalog, rounded to the places formatPrice shows
+export function roundToTick(price: number, info: SymbolInfo | undefined) {
+  if (!info) return Number(formatPrice(price, undefined));
+  return Number((Math.round(price / info.tick_size) * info.tick_size).toFixed(tickDecimals(info.tick_size)));
+}
+
+// The trader-wide leverage applies to every symbol without its own, so the strictest of their limits wins
+export function maxLeverageFor(catalog: SymbolInfo[], symbols: string[]) {
+  let limit: { leverage: number; symbol: string } | undefined;
+  symbols.forEach(symbol => {
+    const info = findSymbol(catalog, symbol);
+    if (info && (!limit || info.max_leverage < limit.leverage)) {
+      limit = { leverage: info.max_leverage, symbol };
+    }
+  });
+  return limit;
+}
+
+// Extra settings rules that need the catalog. Trader-wide leverage problems are reported on both
+// fields because the two are edited in different places; an overridden leverage on the symbol's cell.
+export function symbolCatalogRules(catalog: SymbolInfo[]) {
+  return (settings: { symbols?: unknown; leverage?: unknown; symbol_overrides?: unknown }, ctx: z.RefinementCtx) => {
+    if (!Array.isArray(settings.symbols)) return;
+    const symbols = settings.symbols as string[];
+    const overridable = { symbols, symbol_overrides: settings.symbol_overrides as SymbolOverrides | undefined };
+
+    const problem = symbols.map(symbol => symbolProblem(catalog, symbol)).find(Boolean);
+    if (problem) ctx.addIssue({ code: 'custom', path: ['symbols'], message: problem });
+
+    const limit = maxLeverageFor(catalog, inheritingSymbols(overridable, 'leverage'));
+    if (limit && typeof settings.leverage === 'number' && settings.leverage > limit.leverage) {
+      const message = `${limit.symbol} allows at most ${limit.leverage}x leverage`;
+      ctx.addIssue({ code: 'custom', path: ['leverage'], message });
+      ctx.addIssue({ code: 'custom', path: ['symbols'], message: `${message}; lower leverage to ${limit.leverage}x or less` });
+    }
+
+    symbols.forEach(symbol => {
+      const leverage = symbolOverride(overridable, symbol).leverage;
+      const info = findSymbol(catalog, symbol);
+      if (info && leverage !== undefined && leverage > info.max_leverage) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['symbol_overrides', symbol, 'leverage'],
+          message: `${symbol} allows at most ${info.max_leverage}x leverage`,
+        });
+      }
+    });
+  };
+}
+
+// Field key -> first catalog problem, in the same shape as validateTraderSettings
+export function validateSymbolSettings(
+  settings: Pick<TraderSettings, 'symbols' | 'leverage' | 'symbol_overrides'>,
+  catalog: SymbolInfo[],
+) {
+  const errors: Record<string, string> = {};
+  const result = z.object({}).passthrough().superRefine(symbolCatalogRules(catalog)).safeParse(settings);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      errors[settingsErrorKey(issue.path)] ??= issue.message;
+    });
+  }
+  return errors;
+}
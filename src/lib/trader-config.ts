@@ -0,0 +1,295 @@
+// Editing rules for trader settings, shared by every form that changes a trader's config
+import { z } from 'zod';
+import { type StrategyDefinition, type TraderSettings } from '@/services/api';
+import { describeRule, entryExitRules, ruleErrorKey, RULE_SETS } from './rules';
+import { describeSchedule, validateSchedule } from './schedule';
+import { diffStrategy } from './strategies';
+import {
+  effectiveSettings,
+  OVERRIDABLE_KEYS,
+  overrideErrorKey,
+  symbolOverride,
+  type OverridableKey,
+  type SymbolOverrides,
+} from './symbol-overrides';
+import { isSwitchToLive, MODE_LABELS, traderMode } from './trading-mode';
+
+type NumericSettingKey = Exclude<
+  keyof TraderSettings,
+  'symbols' | 'schedule' | 'mode' | 'group' | 'tags' | 'symbol_overrides' | 'strategy' | 'strategy_params' | 'rules'
+>;
+
+export interface SettingField {
+  key: NumericSettingKey;
+  label: string;
+  group: 'risk' | 'indicators';
+  // How the value is shown and typed: fractions are edited as percentages
+  unit?: 'percent' | 'leverage' | 'minutes';
+  integer?: boolean;
+  step?: number;
+  // Raising this value lets the trader lose more money
+  riskIncreasing?: boolean;
+}
+
+export const SETTING_FIELDS: SettingField[] = [
+  { key: 'risk_per_trade', label: 'Risk Per Trade', group: 'risk', unit: 'percent', step: 0.1, riskIncreasing: true },
+  { key: 'leverage', label: 'Leverage', group: 'risk', unit: 'leverage', integer: true, riskIncreasing: true },
+  { key: 'daily_loss_limit', label: 'Daily Loss Limit', group: 'risk', unit: 'percent', step: 0.5, riskIncreasing: true },
+  { key: 'max_open_trades', label: 'Max Open Trades', group: 'risk', integer: true },
+  { key: 'cooldown_minutes', label: 'Cooldown Period', group: 'risk', unit: 'minutes', integer: true },
+  { key: 'volume_threshold', label: 'Volume Threshold', group: 'risk', step: 100000 },
+  { key: 'rsi_period', label: 'RSI Period', group: 'indicators', integer: true },
+  { key: 'rsi_overbought', label: 'RSI Overbought', group: 'indicators', integer: true },
+  { key: 'rsi_oversold', label: 'RSI Oversold', group: 'indicators', integer: true },
+  { key: 'bollinger_period', label: 'Bollinger Period', group: 'indicators', integer: true },
+  { key: 'bollinger_std', label: 'Bollinger Std Dev', group: 'indicators', step: 0.1 },
+  { key: 'ma_short', label: 'MA Short Period', group: 'indicators', integer: true },
+  { key: 'ma_long', label: 'MA Long Period', group: 'indicators', integer: true },
+];
+
+// The settings a symbol may override, in the order the forms show them
+export const OVERRIDE_FIELDS = SETTING_FIELDS.filter(field => (OVERRIDABLE_KEYS as string[]).includes(field.key));
+
+function numberInRange(label: string, min: number, max: number, integer = false) {
+  const base = z.number({ invalid_type_error: `${label} must be a number` });
+  return (integer ? base.int(`${label} must be a whole number`) : base)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`);
+}
+
+// Bounds match the ranges offered when a trader is created. Passthrough keeps the settings
+// these rules don't cover (mode, schedule, organization) when a form resolver parses the values.
+const settingsShape = z
+  .object({
+    initial_balance: numberInRange('Initial balance', 100, Number.MAX_SAFE_INTEGER),
+    risk_per_trade: numberInRange('Risk per trade', 0.001, 0.1),
+    leverage: numberInRange('Leverage', 1, 100, true),
+    cooldown_minutes: numberInRange('Cooldown', 1, 60, true),
+    daily_loss_limit: numberInRange('Daily loss limit', 0.01, 0.2),
+    max_open_trades: numberInRange('Max open trades', 1, 10, true),
+    symbols: z.array(z.string()).min(1, 'At least one trading symbol is required'),
+    rsi_period: numberInRange('RSI period', 5, 50, true),
+    rsi_overbought: numberInRange('RSI overbought', 60, 90, true),
+    rsi_oversold: numberInRange('RSI oversold', 10, 40, true),
+    bollinger_period: numberInRange('Bollinger period', 10, 50, true),
+    bollinger_std: numberInRange('Bollinger std dev', 1, 3),
+    ma_short: numberInRange('MA short period', 5, 50, true),
+    ma_long: numberInRange('MA long period', 10, 100, true),
+    volume_threshold: numberInRange('Volume threshold', 0, Number.MAX_SAFE_INTEGER),
+  })
+  .passthrough();
+
+interface CrossFieldProblem {
+  // The field that has to change, and the one it is compared with
+  key: NumericSettingKey;
+  other: NumericSettingKey;
+  message: string;
+}
+
+function crossFieldProblems(settings: Pick<TraderSettings, NumericSettingKey>): CrossFieldProblem[] {
+  const problems: CrossFieldProblem[] = [];
+  if (settings.ma_short >= settings.ma_long) {
+    problems.push({ key: 'ma_long', other: 'ma_short', message: 'MA long period must be greater than the short period' });
+  }
+  if (settings.rsi_oversold >= settings.rsi_overbought) {
+    problems.push({ key: 'rsi_overbought', other: 'rsi_oversold', message: 'RSI overbought must be above the oversold level' });
+  }
+  // A single stopped-out trade should never be enough to hit the daily limit
+  if (settings.risk_per_trade > settings.daily_loss_limit) {
+    problems.push({ key: 'daily_loss_limit', other: 'risk_per_trade', message: 'Daily loss limit must be at least the risk per trade' });
+  }
+  return problems;
+}
+
+// Rules that relate two settings; each issue is reported on the field that has to change
+function crossFieldRules(settings: z.infer<typeof settingsShape>, ctx: z.RefinementCtx) {
+  crossFieldProblems(settings).forEach(({ key, message }) => ctx.addIssue({ code: 'custom', path: [key], message }));
+}
+
+// Each traded symbol's effective settings have to pass the same rules as the trader-wide ones.
+// Problems are reported on the symbol's cell in the override grid, or on the cell it is compared
+// with when the field itself can't be overridden.
+function overrideRules(settings: z.infer<typeof settingsShape>, ctx: z.RefinementCtx) {
+  const overrides = settings.symbol_overrides as SymbolOverrides | undefined;
+  if (!overrides) return;
+  const baseProblems = new Set(crossFieldProblems(settings).map(problem => problem.key));
+
+  settings.symbols.forEach(symbol => {
+    const override = symbolOverride({ symbol_overrides: overrides }, symbol);
+    OVERRIDABLE_KEYS.forEach(key => {
+      if (override[key] === undefined) return;
+      const result = settingsShape.shape[key].safeParse(override[key]);
+      if (!result.success) {
+        ctx.addIssue({ code: 'custom', path: ['symbol_overrides', symbol, key], message: `${symbol}: ${result.error.issues[0].message}` });
+      }
+    });
+
+    const effective = effectiveSettings({ ...settings, symbol_overrides: overrides } as TraderSettings, symbol);
+    crossFieldProblems(effective)
+      .filter(problem => !baseProblems.has(problem.key))
+      .forEach(({ key, other, message }) => {
+        const cell = (OVERRIDABLE_KEYS as string[]).includes(key) ? key : other;
+        ctx.addIssue({ code: 'custom', path: ['symbol_overrides', symbol, cell], message: `${symbol}: ${message}` });
+      });
+  });
+}
+
+export const traderSettingsRules = settingsShape
+  .superRefine(crossFieldRules)
+  .superRefine(overrideRules)
+  .superRefine(entryExitRules);
+
+// The settings plus a name, for forms that create a trader
+export const traderConfigRules = settingsShape
+  .extend({ name: z.string().trim().min(1, 'Trader name is required') })
+  .superRefine(crossFieldRules)
+  .superRefine(overrideRules)
+  .superRefine(entryExitRules);
+
+// Problems with a symbol's override or a rule are keyed by overrideErrorKey or ruleErrorKey rather than the top-level field
+export function settingsErrorKey(path: (string | number)[]) {
+  if (path[0] === 'symbol_overrides' && path.length === 3) {
+    return overrideErrorKey(String(path[1]), path[2] as OverridableKey);
+  }
+  if (path[0] === 'rules') return ruleErrorKey(path);
+  return String(path[0] ?? 'form');
+}
+
+// Field key -> first problem with it; empty when the settings are valid
+export function validateTraderSettings(settings: TraderSettings): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const result = traderSettingsRules.safeParse(settings);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      errors[settingsErrorKey(issue.path)] ??= issue.message;
+    });
+  }
+
+  const scheduleError = settings.schedule ? Object.values(validateSchedule(settings.schedule))[0] : undefined;
+  if (scheduleError) errors.schedule = scheduleError;
+  return errors;
+}
+
+export function formatSettingValue(field: SettingField, value: number) {
+  switch (field.unit) {
+    case 'percent':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'leverage':
+      return `${value}x`;
+    case 'minutes':
+      return `${value} min`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+export interface SettingChange {
+  key: keyof TraderSettings;
+  label: string;
+  before: string;
+  after: string;
+  increasesRisk: boolean;
+}
+
+// Strategy parameters are labelled from their definitions when these are known
+export function diffTraderSettings(
+  before: TraderSettings,
+  after: TraderSettings,
+  strategies: StrategyDefinition[] = [],
+): SettingChange[] {
+  const changes: SettingChange[] = [];
+  if (traderMode(before) !== traderMode(after)) {
+    changes.push({
+      key: 'mode',
+      label: 'Trading Mode',
+      before: MODE_LABELS[traderMode(before)],
+      after: MODE_LABELS[traderMode(after)],
+      increasesRisk: isSwitchToLive(before, after),
+    });
+  }
+  changes.push(...diffStrategy(before, after, strategies));
+
+  RULE_SETS.forEach(set => {
+    const beforeRule = before.rules?.[set.key];
+    const afterRule = after.rules?.[set.key];
+    const beforeText = beforeRule ? describeRule(beforeRule) : 'none';
+    const afterText = afterRule ? describeRule(afterRule) : 'none';
+    if (beforeText === afterText) return;
+    changes.push({ key: 'rules', label: `${set.label} Rule`, before: beforeText, after: afterText, increasesRisk: false });
+  });
+
+  changes.push(...SETTING_FIELDS
+    .filter(field => before[field.key] !== after[field.key])
+    .map(field => ({
+      key: field.key,
+      label: field.label,
+      before: formatSettingValue(field, before[field.key]),
+      after: formatSettingValue(field, after[field.key]),
+      increasesRisk: Boolean(field.riskIncreasing) && after[field.key] > before[field.key],
+    })));
+
+  if (before.symbols.join(',') !== after.symbols.join(',')) {
+    changes.push({
+      key: 'symbols',
+      label: 'Trading Symbols',
+      before: before.symbols.join(', ') || 'none',
+      after: after.symbols.join(', ') || 'none',
+      increasesRisk: false,
+    });
+  }
+
+  const overriddenSymbols = [...new Set([...before.symbols, ...after.symbols])];
+  overriddenSymbols.forEach(symbol => {
+    OVERRIDE_FIELDS.forEach(field => {
+      const key = field.key as OverridableKey;
+      const beforeValue = symbolOverride(before, symbol)[key];
+      const afterValue = symbolOverride(after, symbol)[key];
+      if (beforeValue === afterValue) return;
+      changes.push({
+        key: 'symbol_overrides',
+        label: `${symbol} ${field.label}`,
+        before: beforeValue === undefined ? 'inherited' : formatSettingValue(field, beforeValue),
+        after: afterValue === undefined ? 'inherited' : formatSettingValue(field, afterValue),
+        increasesRisk: Boolean(field.riskIncreasing)
+          && effectiveSettings(after, symbol)[key] > effectiveSettings(before, symbol)[key],
+      });
+    });
+  });
+
+  const beforeGroup = before.group?.trim() || 'none';
+  const afterGroup = after.group?.trim() || 'none';
+  if (beforeGroup !== afterGroup) {
+    changes.push({ key: 'group', label: 'Group', before: beforeGroup, after: afterGroup, increasesRisk: false });
+  }
+
+  const beforeTags = (before.tags ?? []).join(', ') || 'none';
+  const afterTags = (after.tags ?? []).join(', ') || 'none';
+  if (beforeTags !== afterTags) {
+    changes.push({ key: 'tags', label: 'Tags', before: beforeTags, after: afterTags, increasesRisk: false });
+  }
+
+  const beforeSchedule = describeSchedule(before.schedule);
+  const afterSchedule = describeSchedule(after.schedule);
+  if (beforeSchedule !== afterSchedule) {
+    changes.push({
+      key: 'schedule',
+      label: 'Trading Schedule',
+      before: beforeSchedule,
+      after: afterSchedule,
+      increasesRisk: false,
+    });
+  }
+
+  return changes;
+}
+
+// One line per symbol with overrides, e.g. "SOLUSDT: Leverage 5x, RSI Period 10"
+export function describeOverrides(settings: TraderSettings) {
+  return settings.symbols.flatMap(symbol => {
+    const override = symbolOverride(settings, symbol);
+    const parts = OVERRIDE_FIELDS
+      .filter(field => override[field.key as OverridableKey] !== undefined)
+      .map(field => `${field.label} ${formatSettingValue(field, override[field.key as OverridableKey]!)}`);
+    return parts.length > 0 ? [`${symbol}: ${parts.join(', ')}`] : [];
+  });
+}
@@ -0,0 +1,94 @@
+// Searching, filtering, sorting and grouping the trader list
+import { type TraderSummary, type TradingMode } from '@/services/api';
+import { traderMode } from './trading-mode';
+
+export type TraderSortKey = 'name' | 'balance' | 'daily_pnl' | 'open_trades';
+
+export const SORT_LABELS: Record<TraderSortKey, string> = {
+  name: 'Name',
+  balance: 'Balance',
+  daily_pnl: 'Daily P&L',
+  open_trades: 'Open trades',
+};
+
+export interface TraderListFilters {
+  search: string;
+  running: 'all' | 'running' | 'stopped';
+  openTradesOnly: boolean;
+  mode: TradingMode | 'all';
+}
+
+export const DEFAULT_FILTERS: TraderListFilters = {
+  search: '',
+  running: 'all',
+  openTradesOnly: false,
+  mode: 'all',
+};
+
+export const UNGROUPED = 'Ungrouped';
+
+export interface TraderGroup {
+  name: string;
+  traders: TraderSummary[];
+  balance: number;
+  dailyPnl: number;
+  running: number;
+}
+
+// Tags and groups are free text typed by people, so they are trimmed, de-duplicated and kept in order
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+}
+
+export function traderGroup(trader: { group?: string }) {
+  return trader.group?.trim() || UNGROUPED;
+}
+
+// Every word has to match the name, group or one of the tags
+export function matchesSearch(trader: TraderSummary, search: string) {
+  const haystack = [trader.name, trader.group ?? '', ...(trader.tags ?? [])].join(' ').toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+export function filterTraders(traders: TraderSummary[], filters: TraderListFilters) {
+  return traders.filter(trader =>
+    matchesSearch(trader, filters.search) &&
+    (filters.running === 'all' || trader.is_running === (filters.running === 'running')) &&
+    (!filters.openTradesOnly || trader.open_trades > 0) &&
+    (filters.mode === 'all' || traderMode(trader) === filters.mode)
+  );
+}
+
+// Names sort A-Z; the numbers sort largest first, which is what people scan for
+export function sortTraders(traders: TraderSummary[], key: TraderSortKey) {
+  return [...traders].sort((a, b) =>
+    key === 'name' ? a.name.localeCompare(b.name) : b[key] - a[key] || a.name.localeCompare(b.name)
+  );
+}
+
+// Named groups A-Z with ungrouped traders last; traders keep the order they were given in
+export function groupTraders(traders: TraderSummary[]): TraderGroup[] {
+  const groups = new Map<string, TraderSummary[]>();
+  traders.forEach(trader => {
+    const name = traderGroup(trader);
+    groups.set(name, [...(groups.get(name) ?? []), trader]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === UNGROUPED ? 1 : b === UNGROUPED ? -1 : a.localeCompare(b)))
+    .map(([name, members]) => ({
+      name,
+      traders: members,
+      balance: members.reduce((sum, t) => sum + t.balance, 0),
+      dailyPnl: members.reduce((sum, t) => sum + t.daily_pnl, 0),
+      running: members.filter(t => t.is_running).length,
+    }));
+}
+
+export function knownGroups(traders: { group?: string }[]) {
+  return [...new Set(traders.map(t => t.group?.trim()).filter((group): group is string => Boolean(group)))].sort();
+}
+
+export function knownTags(traders: { tags?: string[] }[]) {
+  return [...new Set(traders.flatMap(t => t.tags ?? []))].sort();
+}
@@ -0,0 +1,37 @@
+// Paper vs live: how a trader's mode is read, labelled and summed across the portfolio
+import { type TraderSummary, type TradingMode } from '@/services/api';
+
+export const TRADING_MODES: TradingMode[] = ['live', 'paper'];
+
+export const MODE_LABELS: Record<TradingMode, string> = {
+  paper: 'Paper',
+  live: 'Live',
+};
+
+// Backends that predate modes trade whatever account they are connected to, so an unmarked trader counts as live
+export function traderMode(trader: { mode?: TradingMode }): TradingMode {
+  return trader.mode ?? 'live';
+}
+
+export function isSwitchToLive(before: { mode?: TradingMode }, after: { mode?: TradingMode }) {
+  return traderMode(before) !== 'live' && traderMode(after) === 'live';
+}
+
+export interface PortfolioTotals {
+  traders: number;
+  running: number;
+  balance: number;
+  dailyPnl: number;
+  trades: number;
+}
+
+export function portfolioTotals(traders: TraderSummary[], mode?: TradingMode): PortfolioTotals {
+  const included = mode ? traders.filter(t => traderMode(t) === mode) : traders;
+  return {
+    traders: included.length,
+    running: included.filter(t => t.is_running).length,
+    balance: included.reduce((sum, t) => sum + t.balance, 0),
+    dailyPnl: included.reduce((sum, t) => sum + t.daily_pnl, 0),
+    trades: included.reduce((sum, t) => sum + t.total_trades, 0),
+  };
+}
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Hand generated content to the browser as a file download
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type }))
+  const a = document.createElement("a")
+  a.setAttribute("href", url)
+  a.setAttribute("download", fileName)
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
@@ -3,72 +3,69 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Bot, TrendingUp, TrendingDown, Activity, DollarSign } from 'lucide-react';
-import { tradingAPI } from '@/services/api';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Bot, TrendingUp, TrendingDown, Activity, DollarSign, LogOut } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useConnection } from '@/hooks/use-connection';
+import { useArchivedTraders, useStreamCacheSync, useTraders } from '@/hooks/use-trading-queries';
 import { TraderDashboard } from '@/components/TraderDashboard';
 import { CreateTrader } from '@/components/CreateTrader';
+import { ExportTraderConfigs } from '@/components/ExportTraderConfigs';
+import { ImportTraderConfigs } from '@/components/ImportTraderConfigs';
+import { KillSwitch } from '@/components/KillSwitch';
+import { ConnectionProfiles } from '@/components/ConnectionProfiles';
+import { ContractMismatchPanel } from '@/components/ContractMismatchPanel';
+import { LiveTradingBanner } from '@/components/TradingMode';
+import { TraderList } from '@/components/TraderList';
+import { ArchivedTraders } from '@/components/ArchivedTraders';
 import { useToast } from '@/hooks/use-toast';
-
-interface Trader {
-  id: string;
-  name: string;
-  is_running: boolean;
-  balance: number;
-  daily_pnl: number;
-  total_trades: number;
-  open_trades: number;
-}
+import { getErrorMessage, isApiError, isContractError } from '@/services/errors';
+import { MODE_LABELS, portfolioTotals, TRADING_MODES } from '@/lib/trading-mode';
+import { type TradingMode } from '@/services/api';
 
 const Index = () => {
-  const [traders, setTraders] = useState<Trader[]>([]);
   const [selectedTrader, setSelectedTrader] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [modeFilter, setModeFilter] = useState<TradingMode | 'all'>('all');
   const { toast } = useToast();
+  const { activeProfile } = useConnection();
+  const { session, logout } = useAuth();
+  const { role, can } = usePermissions();
+  const { data: traders = [], isLoading: loading, error } = useTraders();
+  const { data: archivedTraders = [] } = useArchivedTraders();
+
+  useStreamCacheSync();
 
   useEffect(() => {
-    loadTraders();
-    const interval = setInterval(loadTraders, 10000);
-    return () => clearInterval(interval);
-  }, []);
-
-  const loadTraders = async () => {
-    try {
-      const data = await tradingAPI.getTraders();
-      setTraders(data);
-      
-      if (!selectedTrader && data.length > 0) {
-        setSelectedTrader(data[0].id);
-      }
-      
-      if (selectedTrader && !data.find(t => t.id === selectedTrader)) {
-        setSelectedTrader(data.length > 0 ? data[0].id : null);
-      }
-    } catch (error) {
-      console.error('Error loading traders:', error);
-      toast({
-        title: "Connection Error",
-        description: "Failed to load traders. Make sure the backend is running.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+    // Contract mismatches get the diagnostic panel instead of a toast
+    if (!error || isContractError(error)) return;
+    console.error('Error loading traders:', error);
+    toast({
+      title: "Connection Error",
+      description: isApiError(error) && error.kind === 'network'
+        ? `Failed to load traders from ${activeProfile.name}. Make sure the backend is running.`
+        : getErrorMessage(error, "Failed to load traders."),
+      variant: "destructive",
+    });
+  }, [error, activeProfile.name, toast]);
 
-  const handleTraderCreated = () => {
-    loadTraders();
-  };
+  // Keep a valid selection as traders come and go; archived traders can stay selected
+  useEffect(() => {
+    if (!selectedTrader || ![...traders, ...archivedTraders].some(t => t.id === selectedTrader)) {
+      setSelectedTrader(traders.length > 0 ? traders[0].id : null);
+    }
+  }, [traders, archivedTraders, selectedTrader]);
 
   const handleTraderDeleted = () => {
     setSelectedTrader(null);
-    loadTraders();
   };
 
-  const selectedTraderData = traders.find(t => t.id === selectedTrader);
-  const totalBalance = traders.reduce((sum, trader) => sum + trader.balance, 0);
-  const totalDailyPnL = traders.reduce((sum, trader) => sum + trader.daily_pnl, 0);
-  const totalTrades = traders.reduce((sum, trader) => sum + trader.total_trades, 0);
-  const runningTraders = traders.filter(t => t.is_running).length;
+  const selectedTraderData = [...traders, ...archivedTraders].find(t => t.id === selectedTrader);
+  const totals = portfolioTotals(traders, modeFilter === 'all' ? undefined : modeFilter);
+  const liveTotals = portfolioTotals(traders, 'live');
+  const paperTotals = portfolioTotals(traders, 'paper');
+  // Totals only need splitting once both kinds of trader exist
+  const mixedModes = liveTotals.traders > 0 && paperTotals.traders > 0;
 
   if (loading) {
     return (
@@ -76,7 +73,9 @@ const Index = () => {
         <div className="text-center">
           <Activity className="w-8 h-8 mx-auto mb-4 animate-spin" />
           <h2 className="text-xl font-semibold mb-2">Loading Trading Dashboard</h2>
-          <p className="text-muted-foreground">Connecting to trading backend...</p>
+          <p className="text-muted-foreground">
+            Connecting to {activeProfile.name} ({activeProfile.baseUrl})...
+          </p>
         </div>
       </div>
     );
@@ -92,9 +91,47 @@ const Index = () => {
               Monitor and control your automated trading bots
             </p>
           </div>
-          <CreateTrader onTraderCreated={handleTraderCreated} />
+          <div className="flex items-center gap-2">
+            {can('trader:control') && <KillSwitch traders={traders} />}
+            <ConnectionProfiles />
+            <ExportTraderConfigs traders={traders} />
+            {can('trader:create') && <ImportTraderConfigs traders={traders} />}
+            {can('trader:create') && <CreateTrader />}
+            <Badge variant="outline" className="capitalize" title={`Signed in as ${session?.username}`}>
+              {role}
+            </Badge>
+            <Button variant="outline" onClick={logout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
 
+        {liveTotals.running > 0 && (
+          <LiveTradingBanner>
+            {liveTotals.running} live trader{liveTotals.running === 1 ? ' is' : 's are'} running with real funds
+            (balance ${liveTotals.balance.toFixed(2)}, today ${liveTotals.dailyPnl.toFixed(2)}).
+          </LiveTradingBanner>
+        )}
+
+        {mixedModes && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Portfolio totals for</span>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={modeFilter}
+              onValueChange={(value) => value && setModeFilter(value as TradingMode | 'all')}
+            >
+              <ToggleGroupItem value="all">All</ToggleGroupItem>
+              {TRADING_MODES.map(mode => (
+                <ToggleGroupItem key={mode} value={mode}>{MODE_LABELS[mode]}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -102,10 +139,15 @@ const Index = () => {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">${totalBalance.toFixed(2)}</div>
+              <div className="text-2xl font-bold">${totals.balance.toFixed(2)}</div>
               <p className="text-xs text-muted-foreground">
-                Daily P&L: ${totalDailyPnL.toFixed(2)}
+                Daily P&L: ${totals.dailyPnl.toFixed(2)}
               </p>
+              {mixedModes && modeFilter === 'all' && (
+                <p className="text-xs text-muted-foreground">
+                  Live ${liveTotals.balance.toFixed(2)} · Paper ${paperTotals.balance.toFixed(2)}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -115,9 +157,9 @@ const Index = () => {
               <Bot className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{runningTraders}</div>
+              <div className="text-2xl font-bold">{totals.running}</div>
               <p className="text-xs text-muted-foreground">
-                of {traders.length} total traders
+                of {totals.traders} total traders
               </p>
             </CardContent>
           </Card>
@@ -128,7 +170,7 @@ const Index = () => {
               <Activity className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{totalTrades}</div>
+              <div className="text-2xl font-bold">{totals.trades}</div>
               <p className="text-xs text-muted-foreground">
                 All time executions
               </p>
@@ -138,7 +180,7 @@ const Index = () => {
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Daily Performance</CardTitle>
-              {totalDailyPnL >= 0 ? (
+              {totals.dailyPnl >= 0 ? (
                 <TrendingUp className="h-4 w-4 text-profit" />
               ) : (
                 <TrendingDown className="h-4 w-4 text-loss" />
@@ -146,10 +188,10 @@ const Index = () => {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${
-                totalDailyPnL >= 0 ? 'text-profit' : 'text-loss'
+                totals.dailyPnl >= 0 ? 'text-profit' : 'text-loss'
               }`}>
-                {totalDailyPnL >= 0 ? '+' : ''}
-                {((totalDailyPnL / totalBalance) * 100).toFixed(2)}%
+                {totals.dailyPnl >= 0 ? '+' : ''}
+                {(totals.balance ? (totals.dailyPnl / totals.balance) * 100 : 0).toFixed(2)}%
               </div>
               <p className="text-xs text-muted-foreground">
                 Today's performance
@@ -158,54 +200,38 @@ const Index = () => {
           </Card>
         </div>
 
-        {traders.length === 0 ? (
+        <ContractMismatchPanel errors={[error]} />
+
+        {traders.length === 0 && archivedTraders.length === 0 ? (
           <Card>
             <CardContent className="text-center py-12">
               <Bot className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-xl font-semibold mb-2">No Trading Bots</h3>
               <p className="text-muted-foreground mb-4">
-                Create your first automated trading bot to get started
+                {can('trader:create')
+                  ? "Create your first automated trading bot to get started"
+                  : "No trading bots have been created on this backend yet"}
               </p>
-              <CreateTrader onTraderCreated={handleTraderCreated} />
+              {can('trader:create') && (
+                <div className="flex justify-center gap-2">
+                  <ImportTraderConfigs traders={traders} />
+                  <CreateTrader />
+                </div>
+              )}
             </CardContent>
           </Card>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-            <Card className="lg:col-span-1">
-              <CardHeader>
-                <CardTitle>Trading Bots ({traders.length})</CardTitle>
-                <CardDescription>Select a bot to view details</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {traders.map((trader) => (
-                  <Button
-                    key={trader.id}
-                    variant={selectedTrader === trader.id ? "default" : "outline"}
-                    className="w-full justify-start"
-                    onClick={() => setSelectedTrader(trader.id)}
-                  >
-                    <div className="flex items-center gap-2 w-full">
-                      <div className="flex-1 text-left">
-                        <div className="font-medium">{trader.name}</div>
-                        <div className="text-xs text-muted-foreground">
-                          ${trader.balance.toFixed(2)}
-                        </div>
-                      </div>
-                      <Badge 
-                        variant={trader.is_running ? "default" : "secondary"}
-                        className="text-xs"
-                      >
-                        {trader.is_running ? "ON" : "OFF"}
-                      </Badge>
-                    </div>
-                  </Button>
-                ))}
-              </CardContent>
-            </Card>
+            <div className="lg:col-span-1 space-y-6">
+              <TraderList traders={traders} selectedId={selectedTrader} onSelect={setSelectedTrader} />
+              <ArchivedTraders traders={archivedTraders} selectedId={selectedTrader} onSelect={setSelectedTrader} />
+            </div>
 
             <div className="lg:col-span-3">
               {selectedTraderData ? (
+                // Keyed so drafts and dialogs opened for one trader never carry over to the next
                 <TraderDashboard
+                  key={selectedTraderData.id}
                   traderId={selectedTraderData.id}
                   traderName={selectedTraderData.name}
                   onTraderDeleted={handleTraderDeleted}
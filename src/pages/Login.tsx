@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { KeyRound, LogIn } from 'lucide-react';
+import { ConnectionProfiles } from '@/components/ConnectionProfiles';
+import { useAuth } from '@/hooks/use-auth';
+import { useConnection } from '@/hooks/use-connection';
+import { useToast } from '@/hooks/use-toast';
+import { getErrorMessage, isApiError } from '@/services/errors';
+
+const Login = () => {
+  const { session, login, loginWithApiKey } = useAuth();
+  const { activeProfile } = useConnection();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? '/';
+
+  if (session) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const signIn = async (attempt: () => Promise<void>) => {
+    setSubmitting(true);
+    try {
+      await attempt();
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Sign In Failed",
+        description: isApiError(error) && (error.status === 401 || error.status === 403)
+          ? "The backend rejected these credentials."
+          : getErrorMessage(error, `Failed to reach ${activeProfile.name}.`),
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePasswordLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    signIn(() => login(username.trim(), password));
+  };
+
+  const handleApiKeyLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    signIn(() => loginWithApiKey(apiKey));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Sign in to the Trading Dashboard</CardTitle>
+          <CardDescription>
+            A session is required before traders can be viewed or controlled.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label>Backend</Label>
+            <ConnectionProfiles />
+          </div>
+
+          <Tabs defaultValue="password">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="password">Password</TabsTrigger>
+              <TabsTrigger value="api-key">API Key</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handlePasswordLogin} className="space-y-4">
+                <div>
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  <LogIn className="w-4 h-4 mr-2" />
+                  {submitting ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="api-key">
+              <form onSubmit={handleApiKeyLogin} className="space-y-4">
+                <div>
+                  <Label htmlFor="api-key">API Key</Label>
+                  <Input
+                    id="api-key"
+                    type="password"
+                    autoComplete="off"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {submitting ? "Verifying..." : "Use API Key"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+
+          {activeProfile.kind === 'mock' && (
+            <p className="text-xs text-muted-foreground">
+              The mock backend accepts any username and password, or any API key.
+              Sign in as "viewer" or "operator" to try a restricted role.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -1,134 +1,377 @@
 // API service for trading backend integration
-const API_BASE_URL = 'http://localhost:5000';
+import { normalizeBaseUrl, type ConnectionProfile } from './connection';
+import { z } from 'zod';
+import {
+  createApiKeySession,
+  createTokenSession,
+  getAuthHeaders,
+  type SessionStore,
+} from './auth';
+import { ApiError } from './errors';
+import { getMockBackend } from './mock';
+import {
+  acknowledgementSchema,
+  auditEntrySchema,
+  authTokenSchema,
+  configRevisionSchema,
+  exportRowsSchema,
+  indicatorDataSchema,
+  marketDataSchema,
+  performanceMetricsSchema,
+  sessionIdentitySchema,
+  strategyDefinitionSchema,
+  symbolInfoSchema,
+  tradeEntrySchema,
+  traderStatusSchema,
+  traderSummarySchema,
+  type TraderConfig,
+  type TraderSettings,
+} from './schemas';
 
-export interface TradeEntry {
-  trade_id: string;
-  timestamp: string;
-  symbol: string;
-  side: 'LONG' | 'SHORT';
-  entry_price: number;
-  quantity: number;
-  leverage: number;
-  risk_pct: number;
-  reward_pct: number;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, honouring Retry-After when the server sends one
+function getRetryDelay(attempt: number, retryAfter?: string | null) {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!Number.isNaN(retryAfterSeconds)) {
+    return Math.min(retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS);
+  }
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * delay * 0.25, RETRY_MAX_DELAY_MS);
+}
+
+async function parseBody(response: Response) {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export type {
+  AuditEntry,
+  ConfigRevision,
+  IndicatorData,
+  PerformanceMetrics,
+  RuleCondition,
+  RuleGroup,
+  RuleOperand,
+  StrategyDefinition,
+  StrategyParameter,
+  SymbolInfo,
+  SymbolOverride,
+  TradeEntry,
+  TraderConfig,
+  TraderSettings,
+  TraderStatus,
+  TraderSummary,
+  TradingMode,
+  TradingRules,
+  TradingSchedule,
+} from './schemas';
+
+export interface TradeLevels {
   stop_loss: number;
   take_profit: number;
-  current_roe: number;
-  drawdown: number;
-  max_roe: number;
-  trade_status: 'OPEN' | 'CLOSED_WIN' | 'CLOSED_LOSS';
-  exit_price?: number;
-  exit_timestamp?: string;
-  actual_return_pct?: number;
-  notes: string;
 }
 
-export interface TraderConfig {
-  name: string;
-  initial_balance: number;
-  risk_per_trade: number;
+// A discretionary entry placed under a trader's account; the backend fills it at market
+export interface ManualOrder extends TradeLevels {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
   leverage: number;
-  cooldown_minutes: number;
-  daily_loss_limit: number;
-  max_open_trades: number;
-  symbols: string[];
-  rsi_period: number;
-  rsi_overbought: number;
-  rsi_oversold: number;
-  bollinger_period: number;
-  bollinger_std: number;
-  ma_short: number;
-  ma_long: number;
-  volume_threshold: number;
 }
 
-export interface PerformanceMetrics {
-  total_trades: number;
-  winning_trades: number;
-  losing_trades: number;
-  win_rate: number;
-  avg_win: number;
-  avg_loss: number;
-  profit_factor: number;
-  max_drawdown: number;
-  current_balance: number;
-  total_pnl: number;
-  total_pnl_pct: number;
-  sharpe_ratio: number;
-}
+// Anything that can answer a fetch call: the browser's fetch or the in-browser mock backend
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
 
-class TradingAPI {
-  private async request(endpoint: string, options: RequestInit = {}) {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    });
+export class TradingAPI {
+  private readonly baseUrl: string;
+  private readonly session: SessionStore;
+  private readonly transport: Transport;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(baseUrl: string, session: SessionStore, transport: Transport = (url, init) => fetch(url, init)) {
+    this.baseUrl = normalizeBaseUrl(baseUrl);
+    this.session = session;
+    this.transport = transport;
+  }
+
+  private async request<T>(
+    endpoint: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: RequestInit = {},
+    authenticated = true
+  ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    // Only idempotent reads are retried; a repeated POST could start a bot twice
+    const maxRetries = method === 'GET' ? MAX_RETRIES : 0;
+    let refreshed = false;
+
+    for (let attempt = 0; ; ) {
+      try {
+        const body = await this.send(endpoint, method, options, authenticated);
+        return this.validate(endpoint, method, schema, body);
+      } catch (error) {
+        // A rejected token gets one refresh; the server refused before acting, so even a POST is safe to repeat
+        if (authenticated && !refreshed && error instanceof ApiError && error.status === 401) {
+          refreshed = true;
+          if (await this.refreshSession()) continue;
+          throw error;
+        }
+        if (!(error instanceof ApiError) || !error.retryable || attempt >= maxRetries) {
+          throw error;
+        }
+        await sleep(getRetryDelay(attempt++, error.retryAfter));
+      }
+    }
+  }
+
+  private async send(endpoint: string, method: string, options: RequestInit, authenticated: boolean) {
+    let response: Response;
+    try {
+      response = await this.transport(`${this.baseUrl}${endpoint}`, {
+        ...options,
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authenticated ? getAuthHeaders(this.session.get()) : {}),
+          ...options.headers,
+        },
+      });
+    } catch (error) {
+      throw new ApiError({ kind: 'network', endpoint, method, cause: error });
+    }
 
     if (!response.ok) {
-      throw new Error(`API Error: ${response.statusText}`);
+      throw new ApiError({
+        kind: 'http',
+        endpoint,
+        method,
+        status: response.status,
+        statusText: response.statusText,
+        payload: await parseBody(response).catch(() => null),
+        retryAfter: response.headers.get('Retry-After'),
+      });
+    }
+
+    return parseBody(response);
+  }
+
+  // Never hand an unexpected shape to the UI; report exactly which fields broke instead
+  private validate<T>(
+    endpoint: string,
+    method: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    body: unknown
+  ): T {
+    const result = schema.safeParse(body);
+    if (result.success) {
+      return result.data;
     }
+    throw new ApiError({
+      kind: 'contract',
+      endpoint,
+      method,
+      payload: body,
+      issues: result.error.issues.map(issue => ({
+        path: issue.path.join('.') || '(root)',
+        message: issue.message,
+      })),
+    });
+  }
+
+  // Authentication
+  async login(username: string, password: string) {
+    const token = await this.request('/auth/login', authTokenSchema, {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    }, false);
+    this.session.set(createTokenSession(username, token));
+  }
+
+  async loginWithApiKey(apiKey: string) {
+    // Asking who the key belongs to also proves it is accepted, and yields its role
+    const identity = await this.request('/auth/me', sessionIdentitySchema, {
+      headers: getAuthHeaders(createApiKeySession(apiKey)),
+    }, false);
+    this.session.set(createApiKeySession(apiKey, identity));
+  }
+
+  // Concurrent 401s share one refresh so a rotating refresh token is only spent once
+  refreshSession() {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
 
-    return response.json();
+  private async performRefresh() {
+    const current = this.session.get();
+    if (!current?.refreshToken) {
+      this.session.clear('expired');
+      return false;
+    }
+    try {
+      const token = await this.request('/auth/refresh', authTokenSchema, {
+        method: 'POST',
+        body: JSON.stringify({ refresh_token: current.refreshToken }),
+      }, false);
+      // The user may have signed out while the refresh was in flight
+      if (this.session.get() === current) {
+        this.session.set(createTokenSession(current.username, token, current.role));
+      }
+      return true;
+    } catch (error) {
+      // Only a definitive rejection ends the session; an unreachable backend may recover
+      if (error instanceof ApiError && error.kind === 'http' && error.status !== null && error.status < 500) {
+        this.session.clear('expired');
+      }
+      return false;
+    }
   }
 
   // Trader Management
   async createTrader(config: TraderConfig) {
-    return this.request('/trader/create', {
+    return this.request('/trader/create', acknowledgementSchema, {
       method: 'POST',
       body: JSON.stringify(config),
     });
   }
 
   async getTraders() {
-    return this.request('/trader/list');
+    return this.request('/trader/list', z.array(traderSummarySchema));
   }
 
   async getTraderStatus(traderId: string) {
-    return this.request(`/trader/${traderId}/status`);
+    return this.request(`/trader/${traderId}/status`, traderStatusSchema);
   }
 
   async startTrader(traderId: string) {
-    return this.request(`/trader/${traderId}/start`, {
+    return this.request(`/trader/${traderId}/start`, acknowledgementSchema, {
       method: 'POST',
     });
   }
 
   async stopTrader(traderId: string) {
-    return this.request(`/trader/${traderId}/stop`, {
+    return this.request(`/trader/${traderId}/stop`, acknowledgementSchema, {
+      method: 'POST',
+    });
+  }
+
+  async updateTraderConfig(traderId: string, settings: TraderSettings) {
+    return this.request(`/trader/${traderId}/config`, acknowledgementSchema, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async getConfigRevisions(traderId: string) {
+    return this.request(`/trader/${traderId}/config/revisions`, z.array(configRevisionSchema));
+  }
+
+  // Re-applies an old revision's settings; the backend records it as a new revision
+  async rollbackConfig(traderId: string, revision: number) {
+    return this.request(`/trader/${traderId}/config/rollback`, acknowledgementSchema, {
+      method: 'POST',
+      body: JSON.stringify({ revision }),
+    });
+  }
+
+  // Archived traders are left out of /trader/list; their trades and performance stay readable
+  async getArchivedTraders() {
+    return this.request('/trader/archived', z.array(traderSummarySchema));
+  }
+
+  // The backend refuses while the trader is running or has open trades
+  async archiveTrader(traderId: string) {
+    return this.request(`/trader/${traderId}/archive`, acknowledgementSchema, {
+      method: 'POST',
+    });
+  }
+
+  async restoreTrader(traderId: string) {
+    return this.request(`/trader/${traderId}/restore`, acknowledgementSchema, {
       method: 'POST',
     });
   }
 
   async deleteTrader(traderId: string) {
-    return this.request(`/trader/${traderId}`, {
+    return this.request(`/trader/${traderId}`, acknowledgementSchema, {
       method: 'DELETE',
     });
   }
 
+  // The backend enforces the trader's risk rules again and tags the trade as MANUAL
+  async openTrade(traderId: string, order: ManualOrder) {
+    return this.request(`/trader/${traderId}/trades`, acknowledgementSchema, {
+      method: 'POST',
+      body: JSON.stringify(order),
+    });
+  }
+
+  // Closes an open position at market, or only `fraction` (0-1) of it; the trader keeps its running state
+  async closeTrade(traderId: string, tradeId: string, fraction?: number) {
+    return this.request(`/trader/${traderId}/trades/${tradeId}/close`, acknowledgementSchema, {
+      method: 'POST',
+      body: fraction === undefined ? undefined : JSON.stringify({ fraction }),
+    });
+  }
+
+  async updateTradeLevels(traderId: string, tradeId: string, levels: TradeLevels) {
+    return this.request(`/trader/${traderId}/trades/${tradeId}`, acknowledgementSchema, {
+      method: 'PATCH',
+      body: JSON.stringify(levels),
+    });
+  }
+
+  async getAuditLog(traderId: string) {
+    return this.request(`/trader/${traderId}/audit`, z.array(auditEntrySchema));
+  }
+
   // Analytics
-  async getTraderTrades(traderId: string): Promise<TradeEntry[]> {
-    return this.request(`/trader/${traderId}/trades`);
+  async getTraderTrades(traderId: string) {
+    return this.request(`/trader/${traderId}/trades`, z.array(tradeEntrySchema));
   }
 
-  async getTraderPerformance(traderId: string): Promise<PerformanceMetrics> {
-    return this.request(`/trader/${traderId}/performance`);
+  async getTraderPerformance(traderId: string) {
+    return this.request(`/trader/${traderId}/performance`, performanceMetricsSchema);
   }
 
   async exportTrades(traderId: string) {
-    return this.request(`/trader/${traderId}/export`);
+    return this.request(`/trader/${traderId}/export`, exportRowsSchema);
   }
 
   // Real-time data
   async getMarketData(symbol: string) {
-    return this.request(`/market/data/${symbol}`);
+    return this.request(`/market/data/${symbol}`, marketDataSchema);
+  }
+
+  async getStrategies() {
+    return this.request('/strategies', z.array(strategyDefinitionSchema));
+  }
+
+  async getSymbols() {
+    return this.request('/market/symbols', z.array(symbolInfoSchema));
   }
 
   async getTechnicalIndicators(traderId: string, symbol: string) {
-    return this.request(`/trader/${traderId}/indicators/${symbol}`);
+    return this.request(`/trader/${traderId}/indicators/${symbol}`, indicatorDataSchema);
   }
 }
 
-export const tradingAPI = new TradingAPI();
\ No newline at end of file
+export function createTradingAPI(profile: ConnectionProfile, session: SessionStore) {
+  if (profile.kind === 'mock') {
+    return new TradingAPI(profile.baseUrl, session, getMockBackend().handle);
+  }
+  return new TradingAPI(profile.baseUrl, session);
+}
@@ -0,0 +1,117 @@
+// Login sessions for the trading backend, one per connection profile
+import { DEFAULT_ROLE } from './permissions';
+import { roleSchema, type AuthToken, type Role, type SessionIdentity } from './schemas';
+
+export interface AuthSession {
+  username: string;
+  role: Role;
+  // 'bearer' tokens come from /auth/login; 'api-key' is a long-lived key entered by the user
+  method: 'bearer' | 'api-key';
+  token: string;
+  refreshToken?: string;
+  // Epoch milliseconds; API keys never expire on the client
+  expiresAt?: number;
+}
+
+export type SessionEndReason = 'logout' | 'expired';
+
+type SessionListener = (session: AuthSession | null, reason?: SessionEndReason) => void;
+
+const SESSION_STORAGE_PREFIX = 'trading-dashboard:session:';
+
+export function createTokenSession(
+  username: string,
+  token: AuthToken,
+  fallbackRole: Role = DEFAULT_ROLE,
+  now = Date.now()
+): AuthSession {
+  return {
+    username,
+    role: token.role ?? fallbackRole,
+    method: 'bearer',
+    token: token.access_token,
+    refreshToken: token.refresh_token,
+    expiresAt: token.expires_in ? now + token.expires_in * 1000 : undefined,
+  };
+}
+
+export function createApiKeySession(apiKey: string, identity: SessionIdentity = {}): AuthSession {
+  return {
+    username: identity.username ?? 'API key',
+    role: identity.role ?? DEFAULT_ROLE,
+    method: 'api-key',
+    token: apiKey.trim(),
+  };
+}
+
+export function isSessionExpired(session: AuthSession, now = Date.now()) {
+  return session.expiresAt !== undefined && session.expiresAt <= now;
+}
+
+export function getAuthHeaders(session: AuthSession | null): Record<string, string> {
+  if (!session) return {};
+  return session.method === 'api-key'
+    ? { 'X-API-Key': session.token }
+    : { Authorization: `Bearer ${session.token}` };
+}
+
+// EventSource cannot send headers, so the stream gets its credentials in the query string
+export function getAuthenticatedStreamUrl(url: string, session: AuthSession) {
+  const param = session.method === 'api-key' ? 'api_key' : 'access_token';
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${param}=${encodeURIComponent(session.token)}`;
+}
+
+// Held in sessionStorage so closing the tab on a shared screen also ends the session
+export class SessionStore {
+  private session: AuthSession | null;
+  private readonly listeners = new Set<SessionListener>();
+  private readonly storageKey: string;
+
+  constructor(profileId: string) {
+    this.storageKey = `${SESSION_STORAGE_PREFIX}${profileId}`;
+    this.session = this.load();
+  }
+
+  get() {
+    return this.session;
+  }
+
+  set(session: AuthSession) {
+    this.session = session;
+    sessionStorage.setItem(this.storageKey, JSON.stringify(session));
+    this.listeners.forEach(listener => listener(session));
+  }
+
+  clear(reason: SessionEndReason) {
+    if (!this.session) return;
+    this.session = null;
+    sessionStorage.removeItem(this.storageKey);
+    this.listeners.forEach(listener => listener(null, reason));
+  }
+
+  subscribe(listener: SessionListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load(): AuthSession | null {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(this.storageKey) || 'null');
+      if (typeof stored?.token !== 'string' || typeof stored?.username !== 'string') {
+        return null;
+      }
+      // An expired token is only worth keeping if it can still be refreshed
+      if (isSessionExpired(stored) && !stored.refreshToken) {
+        sessionStorage.removeItem(this.storageKey);
+        return null;
+      }
+      const role = roleSchema.safeParse(stored.role);
+      return { ...stored, role: role.success ? role.data : DEFAULT_ROLE };
+    } catch {
+      return null;
+    }
+  }
+}
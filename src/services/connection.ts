@@ -0,0 +1,76 @@
+// Connection profiles for the trading backend
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  // Push channel; defaults to `${baseUrl}/stream` when omitted
+  streamUrl?: string;
+  // 'mock' serves every request from the in-browser simulated backend
+  kind?: 'http' | 'mock';
+}
+
+const PROFILES_STORAGE_KEY = 'trading-dashboard:connection-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'trading-dashboard:active-profile';
+
+// Build-time default, overridable with VITE_API_BASE_URL
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: 'default',
+  name: import.meta.env.VITE_API_PROFILE_NAME || 'Default',
+  baseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000',
+  streamUrl: import.meta.env.VITE_API_STREAM_URL || undefined,
+};
+
+// Always available so demos and UI tests can run with no backend at all
+export const MOCK_PROFILE: ConnectionProfile = {
+  id: 'mock',
+  name: 'Mock backend (offline)',
+  baseUrl: 'mock://trading-backend',
+  kind: 'mock',
+};
+
+const BUILT_IN_PROFILE_IDS = [DEFAULT_PROFILE.id, MOCK_PROFILE.id];
+
+export function isBuiltInProfile(profileId: string) {
+  return BUILT_IN_PROFILE_IDS.includes(profileId);
+}
+
+export function normalizeBaseUrl(url: string) {
+  return url.trim().replace(/\/+$/, '');
+}
+
+export function getStreamUrl(profile: ConnectionProfile) {
+  return profile.streamUrl ? profile.streamUrl.trim() : `${normalizeBaseUrl(profile.baseUrl)}/stream`;
+}
+
+export function loadProfiles(): ConnectionProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+    const runtimeProfiles = Array.isArray(stored)
+      ? stored.filter((p): p is ConnectionProfile =>
+          typeof p?.id === 'string' && typeof p?.name === 'string' && typeof p?.baseUrl === 'string'
+        )
+      : [];
+    return [DEFAULT_PROFILE, MOCK_PROFILE, ...runtimeProfiles.filter(p => !isBuiltInProfile(p.id))];
+  } catch {
+    return [DEFAULT_PROFILE, MOCK_PROFILE];
+  }
+}
+
+// Only runtime profiles are persisted; built-in profiles always come from code and env
+export function saveProfiles(profiles: ConnectionProfile[]) {
+  const runtimeProfiles = profiles.filter(p => !isBuiltInProfile(p.id));
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(runtimeProfiles));
+}
+
+export function loadActiveProfileId() {
+  const buildDefault = import.meta.env.VITE_USE_MOCK_BACKEND === 'true' ? MOCK_PROFILE.id : DEFAULT_PROFILE.id;
+  return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || buildDefault;
+}
+
+export function saveActiveProfileId(profileId: string) {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+}
+
+export function createProfileId() {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
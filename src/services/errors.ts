@@ -0,0 +1,103 @@
+// Error model for trading backend requests
+// 'contract' means the request succeeded but the response did not have the expected shape
+export type ApiErrorKind = 'network' | 'http' | 'contract';
+
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind;
+  endpoint: string;
+  method: string;
+  status?: number | null;
+  statusText?: string;
+  payload?: unknown;
+  retryAfter?: string | null;
+  issues?: ContractIssue[];
+  cause?: unknown;
+}
+
+// Status codes worth retrying: timeouts, rate limits and transient server failures
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly endpoint: string;
+  readonly method: string;
+  readonly status: number | null;
+  readonly payload: unknown;
+  readonly retryable: boolean;
+  readonly retryAfter: string | null;
+  readonly issues: ContractIssue[];
+
+  constructor({
+    kind,
+    endpoint,
+    method,
+    status = null,
+    statusText,
+    payload,
+    retryAfter = null,
+    issues = [],
+    cause,
+  }: ApiErrorOptions) {
+    super(
+      kind === 'contract'
+        ? `Backend response for ${method} ${endpoint} does not match the expected contract.`
+        : extractServerMessage(payload) ?? defaultMessage(kind, status, statusText)
+    );
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.method = method;
+    this.status = status;
+    this.payload = payload;
+    this.retryable = kind === 'network' || (status !== null && RETRYABLE_STATUSES.has(status));
+    this.retryAfter = retryAfter;
+    this.issues = issues;
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isContractError(error: unknown): error is ApiError {
+  return isApiError(error) && error.kind === 'contract';
+}
+
+// Best-effort extraction of the human readable message from an error body
+function extractServerMessage(payload: unknown): string | null {
+  if (typeof payload === 'string') {
+    return payload.trim() || null;
+  }
+  if (payload && typeof payload === 'object') {
+    const body = payload as Record<string, unknown>;
+    for (const key of ['error', 'message', 'detail']) {
+      if (typeof body[key] === 'string' && body[key]) {
+        return body[key] as string;
+      }
+    }
+  }
+  return null;
+}
+
+function defaultMessage(kind: ApiErrorKind, status: number | null, statusText?: string) {
+  if (kind === 'network') {
+    return 'Unable to reach the trading backend.';
+  }
+  return `Request failed with status ${status}${statusText ? ` (${statusText})` : ''}.`;
+}
+
+// Message to show the user: the server's own wording when there is one
+export function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
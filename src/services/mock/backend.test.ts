@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type TraderConfig, type TraderStatus } from '@/services/api';
+import { MockTradingBackend } from './backend';
+
+// A session from 09:00 to 17:00 UTC every day
+const CONFIG: TraderConfig = {
+  name: 'Scheduled',
+  initial_balance: 10000,
+  risk_per_trade: 0.01,
+  leverage: 5,
+  cooldown_minutes: 30,
+  daily_loss_limit: 0.05,
+  max_open_trades: 3,
+  symbols: ['BTCUSDT'],
+  rsi_period: 14,
+  rsi_overbought: 70,
+  rsi_oversold: 30,
+  bollinger_period: 20,
+  bollinger_std: 2,
+  ma_short: 10,
+  ma_long: 20,
+  volume_threshold: 1000000,
+  schedule: {
+    enabled: true,
+    timezone: 'UTC',
+    windows: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, start: '09:00', end: '17:00' })),
+    blackout_dates: [],
+  },
+};
+
+describe('MockTradingBackend schedules', () => {
+  let backend: MockTradingBackend;
+  let traderId: string;
+
+  // Day 1 or 2 of the test, at a UTC time of day
+  const at = (day: number, time: string) => vi.setSystemTime(new Date(`2026-03-0${day + 1}T${time}:00Z`));
+
+  async function call(method: string, path: string, body?: unknown) {
+    const response = await backend.handle(path, {
+      method,
+      headers: { 'X-API-Key': 'admin' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return response.json();
+  }
+
+  const isRunning = async () => ((await call('GET', `/trader/${traderId}/status`)) as TraderStatus).is_running;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    at(1, '08:30');
+    backend = new MockTradingBackend(null);
+    traderId = (await call('POST', '/trader/create', CONFIG)).trader_id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts and stops the trader at the session edges', async () => {
+    expect(await isRunning()).toBe(false);
+    at(1, '09:05');
+    expect(await isRunning()).toBe(true);
+    at(1, '17:05');
+    expect(await isRunning()).toBe(false);
+  });
+
+  it('keeps a trader stopped by hand or by the kill switch stopped at the next session', async () => {
+    at(1, '09:05');
+    expect(await isRunning()).toBe(true);
+    await call('POST', `/trader/${traderId}/stop`);
+
+    // Through the close and into the next session
+    at(1, '17:05');
+    expect(await isRunning()).toBe(false);
+    at(2, '08:55');
+    expect(await isRunning()).toBe(false);
+    at(2, '09:05');
+    const status = (await call('GET', `/trader/${traderId}/status`)) as TraderStatus;
+    expect(status.is_running).toBe(false);
+    expect(status.schedule_paused).toBe(true);
+  });
+
+  it('hands the trader back to the schedule once it is started again', async () => {
+    at(1, '09:05');
+    await call('POST', `/trader/${traderId}/stop`);
+    at(1, '09:10');
+    await call('POST', `/trader/${traderId}/start`);
+    at(1, '17:05');
+    expect(await isRunning()).toBe(false);
+    at(2, '08:55');
+    expect(await isRunning()).toBe(false);
+    at(2, '09:05');
+    const status = (await call('GET', `/trader/${traderId}/status`)) as TraderStatus;
+    expect(status.is_running).toBe(true);
+    expect(status.schedule_paused).toBeUndefined();
+  });
+});
@@ -0,0 +1,889 @@
+// In-browser stand-in for the Python trading backend, used by the "mock" connection profile.
+// It answers the same HTTP contract with real Response objects, so TradingAPI's error
+// handling and schema validation run exactly as they do against a live server.
+import { hasPermission, type Permission } from '../permissions';
+import {
+  roleSchema,
+  traderConfigSchema,
+  traderSettingsSchema,
+  type AuditEntry,
+  type ConfigRevision,
+  type PerformanceMetrics,
+  type Role,
+  type TradeEntry,
+  type TraderConfig,
+  type TraderSettings,
+  type TraderStatus,
+  type TraderSummary,
+} from '../schemas';
+import { isWithinSchedule, validateSchedule } from '../../lib/schedule';
+import { effectiveSettings } from '../../lib/symbol-overrides';
+import { evaluateRule, validateRules } from '../../lib/rules';
+import { findStrategy, traderStrategyId, validateStrategySettings } from '../../lib/strategies';
+import { validateSymbolSettings } from '../../lib/symbols';
+import { computeIndicators, createFeed, lastPrice, STRATEGIES, SYMBOL_CATALOG, tickFeed, type SymbolFeed } from './market';
+
+interface MockTrader {
+  id: string;
+  config: TraderConfig;
+  is_running: boolean;
+  balance: number;
+  trades: TradeEntry[];
+  last_trade_time?: string;
+  created_at: string;
+  // Missing on traders saved before revisions were tracked
+  revisions?: ConfigRevision[];
+  // Newest first; missing on traders saved before manual actions were audited
+  audit?: AuditEntry[];
+  // Whether the schedule was in session at the last step; it is only applied when this flips
+  schedule_active?: boolean;
+  // Set by a stop request, e.g. from the kill switch; the schedule won't start the trader until it is started again
+  schedule_paused?: boolean;
+  archived_at?: string;
+}
+
+interface MockToken {
+  username: string;
+  role: Role;
+  kind: 'access' | 'refresh';
+  expiresAt: number;
+}
+
+interface MockState {
+  version: 1;
+  clock: number;
+  nextId: number;
+  feeds: Record<string, SymbolFeed>;
+  traders: MockTrader[];
+  tokens: Record<string, MockToken>;
+}
+
+const STORAGE_KEY = 'trading-dashboard:mock-backend';
+const STEP_MS = 5000;
+// Cap catch-up after the tab was closed for a long time: at most one simulated hour per request
+const MAX_CATCHUP_STEPS = 720;
+const STOP_DISTANCE = 0.01;
+const REWARD_RISK_RATIO = 2;
+const ACCESS_TOKEN_TTL_S = 15 * 60;
+const REFRESH_TOKEN_TTL_S = 7 * 24 * 60 * 60;
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+interface MockIdentity {
+  username: string;
+  role: Role;
+}
+
+type RouteHandler = (params: string[], body: unknown, identity: MockIdentity | null) => unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  // Reachable without credentials
+  public?: boolean;
+  permission?: Permission;
+}
+
+function emptyState(): MockState {
+  return { version: 1, clock: Date.now(), nextId: 1, feeds: {}, traders: [], tokens: {} };
+}
+
+// Sign in as "viewer" or "operator" (or use that as the API key) to try a restricted role
+function mockRole(name: string): Role {
+  const role = roleSchema.safeParse(name.trim().toLowerCase());
+  return role.success ? role.data : 'admin';
+}
+
+function randomToken(prefix: string) {
+  return `${prefix}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+function startOfDay(time: number) {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function tradePnl(trade: TradeEntry, price = trade.exit_price ?? trade.entry_price) {
+  const direction = trade.side === 'LONG' ? 1 : -1;
+  return (price - trade.entry_price) * trade.quantity * direction;
+}
+
+export class MockTradingBackend {
+  private state: MockState;
+  private readonly routes: Route[];
+
+  constructor(private readonly storage: Storage | null = typeof localStorage === 'undefined' ? null : localStorage) {
+    this.state = this.load();
+    this.routes = [
+      { method: 'POST', pattern: /^\/auth\/login$/, handler: (_params, body) => this.login(body), public: true },
+      { method: 'POST', pattern: /^\/auth\/refresh$/, handler: (_params, body) => this.refresh(body), public: true },
+      { method: 'GET', pattern: /^\/auth\/me$/, handler: (_params, _body, identity) => identity },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/create$/,
+        handler: (_params, body, identity) => this.createTrader(body, identity!),
+        permission: 'trader:create',
+      },
+      {
+        method: 'GET',
+        pattern: /^\/trader\/list$/,
+        handler: () => this.state.traders.filter(t => !t.archived_at).map(t => this.summary(t)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/trader\/archived$/,
+        handler: () => this.state.traders.filter(t => t.archived_at).map(t => this.summary(t)),
+      },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/status$/, handler: ([id]) => this.status(this.trader(id)) },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/start$/,
+        handler: ([id]) => this.setRunning(id, true),
+        permission: 'trader:control',
+      },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/stop$/,
+        handler: ([id]) => this.setRunning(id, false),
+        permission: 'trader:control',
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/trader\/([^/]+)\/config$/,
+        handler: ([id], body, identity) => this.updateConfig(id, body, identity!),
+        permission: 'trader:configure',
+      },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/config\/revisions$/, handler: ([id]) => this.revisions(this.trader(id)) },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/config\/rollback$/,
+        handler: ([id], body, identity) => this.rollbackConfig(id, body, identity!),
+        permission: 'trader:configure',
+      },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/archive$/,
+        handler: ([id], _body, identity) => this.archiveTrader(id, identity!),
+        permission: 'trader:delete',
+      },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/restore$/,
+        handler: ([id], _body, identity) => this.restoreTrader(id, identity!),
+        permission: 'trader:delete',
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/trader\/([^/]+)$/,
+        handler: ([id]) => this.deleteTrader(id),
+        permission: 'trader:delete',
+      },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/trades$/, handler: ([id]) => this.trader(id).trades },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/trades$/,
+        handler: ([id], body, identity) => this.openManualTrade(id, body, identity!),
+        permission: 'trader:control',
+      },
+      {
+        method: 'POST',
+        pattern: /^\/trader\/([^/]+)\/trades\/([^/]+)\/close$/,
+        handler: ([id, tradeId], body, identity) => this.closeTrade(id, tradeId, body, identity!),
+        permission: 'trader:control',
+      },
+      {
+        method: 'PATCH',
+        pattern: /^\/trader\/([^/]+)\/trades\/([^/]+)$/,
+        handler: ([id, tradeId], body, identity) => this.updateTradeLevels(id, tradeId, body, identity!),
+        permission: 'trader:control',
+      },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/audit$/, handler: ([id]) => this.trader(id).audit ?? [] },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/performance$/, handler: ([id]) => this.performance(this.trader(id)) },
+      { method: 'GET', pattern: /^\/trader\/([^/]+)\/export$/, handler: ([id]) => this.trader(id).trades },
+      {
+        method: 'GET',
+        pattern: /^\/trader\/([^/]+)\/indicators\/([^/]+)$/,
+        handler: ([id, symbol]) => computeIndicators(symbol, this.feed(symbol), effectiveSettings(this.trader(id).config, symbol)),
+      },
+      { method: 'GET', pattern: /^\/market\/data\/([^/]+)$/, handler: ([symbol]) => this.marketData(symbol) },
+      { method: 'GET', pattern: /^\/market\/symbols$/, handler: () => SYMBOL_CATALOG },
+      { method: 'GET', pattern: /^\/strategies$/, handler: () => STRATEGIES },
+    ];
+  }
+
+  // fetch-compatible entry point handed to TradingAPI
+  handle = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = new URL(url, 'http://mock.local').pathname;
+
+    try {
+      this.advance(Date.now());
+      const route = this.routes.find(r => r.method === method && r.pattern.test(path));
+      if (!route) {
+        throw new MockHttpError(404, `No mock route for ${method} ${path}`);
+      }
+      const identity = route.public ? null : this.authenticate(new Headers(init.headers));
+      if (route.permission && !hasPermission(identity!.role, route.permission)) {
+        throw new MockHttpError(403, `The ${identity!.role} role is not allowed to do this`);
+      }
+      const params = path.match(route.pattern)!.slice(1).map(decodeURIComponent);
+      const body = typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined;
+      const result = route.handler(params, body, identity);
+      this.save();
+      return this.json(200, result ?? { success: true });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return this.json(error.status, { error: error.message });
+      }
+      return this.json(500, { error: error instanceof Error ? error.message : 'Mock backend failure' });
+    }
+  };
+
+  reset() {
+    this.state = emptyState();
+    this.save();
+  }
+
+  private json(status: number, body: unknown) {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private load(): MockState {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      // Snapshots saved before authentication existed have no token table
+      return parsed?.version === 1 ? { tokens: {}, ...parsed } : emptyState();
+    } catch {
+      return emptyState();
+    }
+  }
+
+  private save() {
+    this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.state));
+  }
+
+  private trader(id: string) {
+    const trader = this.state.traders.find(t => t.id === id);
+    if (!trader) {
+      throw new MockHttpError(404, `Trader ${id} not found`);
+    }
+    return trader;
+  }
+
+  // Archived traders stay readable, but nothing may start them or change what they trade
+  private activeTrader(id: string) {
+    const trader = this.trader(id);
+    if (trader.archived_at) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} is archived; restore it first`);
+    }
+    return trader;
+  }
+
+  private feed(symbol: string) {
+    if (!this.state.feeds[symbol]) {
+      this.state.feeds[symbol] = createFeed(symbol);
+    }
+    return this.state.feeds[symbol];
+  }
+
+  // Authentication: any username and password, or any API key, is accepted
+
+  private authenticate(headers: Headers): MockIdentity {
+    const apiKey = headers.get('X-API-Key')?.trim();
+    if (apiKey) {
+      return { username: 'API key', role: mockRole(apiKey) };
+    }
+    const bearer = headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+    const token = bearer ? this.state.tokens[bearer] : undefined;
+    if (!token || token.kind !== 'access' || token.expiresAt <= Date.now()) {
+      throw new MockHttpError(401, 'Authentication required');
+    }
+    return { username: token.username, role: token.role };
+  }
+
+  private issueTokens(username: string, role: Role) {
+    const now = Date.now();
+    // Drop expired tokens so the persisted table does not grow forever
+    Object.entries(this.state.tokens).forEach(([key, token]) => {
+      if (token.expiresAt <= now) delete this.state.tokens[key];
+    });
+    const accessToken = randomToken('mock-access');
+    const refreshToken = randomToken('mock-refresh');
+    this.state.tokens[accessToken] = { username, role, kind: 'access', expiresAt: now + ACCESS_TOKEN_TTL_S * 1000 };
+    this.state.tokens[refreshToken] = { username, role, kind: 'refresh', expiresAt: now + REFRESH_TOKEN_TTL_S * 1000 };
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: ACCESS_TOKEN_TTL_S, role };
+  }
+
+  private login(body: unknown) {
+    const { username, password } = (body ?? {}) as { username?: unknown; password?: unknown };
+    if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || !password) {
+      throw new MockHttpError(401, 'Invalid username or password');
+    }
+    return this.issueTokens(username.trim(), mockRole(username));
+  }
+
+  private refresh(body: unknown) {
+    const refreshToken = (body as { refresh_token?: unknown } | undefined)?.refresh_token;
+    const token = typeof refreshToken === 'string' ? this.state.tokens[refreshToken] : undefined;
+    if (!token || token.kind !== 'refresh' || token.expiresAt <= Date.now()) {
+      throw new MockHttpError(401, 'Refresh token is invalid or expired');
+    }
+    // Refresh tokens rotate: each one can be used once
+    delete this.state.tokens[refreshToken as string];
+    return this.issueTokens(token.username, token.role);
+  }
+
+  // Trader management
+
+  private createTrader(body: unknown, identity: MockIdentity) {
+    const result = traderConfigSchema.safeParse(body);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new MockHttpError(400, `Invalid trader config: ${issue.path.join('.')} ${issue.message}`);
+    }
+    const config = result.data;
+    if (!config.name.trim()) {
+      throw new MockHttpError(400, 'Trader name is required');
+    }
+    if (this.state.traders.some(t => t.config.name === config.name)) {
+      throw new MockHttpError(409, `A trader named ${config.name} already exists`);
+    }
+    this.checkSchedule(config);
+    this.checkSymbols(config);
+    this.checkStrategy(config);
+    this.checkRules(config);
+
+    const trader: MockTrader = {
+      id: `mock-${this.state.nextId++}`,
+      config,
+      is_running: false,
+      balance: config.initial_balance,
+      trades: [],
+      created_at: new Date(this.state.clock).toISOString(),
+      revisions: [],
+    };
+    this.recordRevision(trader, identity, 'Initial configuration');
+    config.symbols.forEach(symbol => this.feed(symbol));
+    this.state.traders.push(trader);
+    return { trader_id: trader.id, message: `Trader ${config.name} created` };
+  }
+
+  private setRunning(id: string, isRunning: boolean) {
+    const trader = this.activeTrader(id);
+    if (trader.is_running === isRunning) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} is already ${isRunning ? 'running' : 'stopped'}`);
+    }
+    trader.is_running = isRunning;
+    trader.schedule_paused = isRunning ? undefined : true;
+    return { success: true, is_running: isRunning };
+  }
+
+  private revisions(trader: MockTrader) {
+    if (!trader.revisions) {
+      const { name, ...config } = trader.config;
+      trader.revisions = [{ revision: 1, config, created_at: trader.created_at, author: 'unknown' }];
+    }
+    return trader.revisions;
+  }
+
+  private recordRevision(trader: MockTrader, identity: MockIdentity, note?: string) {
+    const revisions = this.revisions(trader);
+    const { name, ...config } = trader.config;
+    revisions.push({
+      revision: revisions.length ? revisions[revisions.length - 1].revision + 1 : 1,
+      config,
+      created_at: new Date(this.state.clock).toISOString(),
+      author: identity.username,
+      note,
+    });
+  }
+
+  private rollbackConfig(id: string, body: unknown, identity: MockIdentity) {
+    const trader = this.activeTrader(id);
+    const revision = (body as { revision?: unknown } | undefined)?.revision;
+    const target = this.revisions(trader).find(r => r.revision === revision);
+    if (!target) {
+      throw new MockHttpError(404, `Revision ${String(revision)} not found`);
+    }
+    trader.config = { ...target.config, name: trader.config.name };
+    this.recordRevision(trader, identity, `Rolled back to revision ${target.revision}`);
+    return { success: true };
+  }
+
+  private updateConfig(id: string, body: unknown, identity: MockIdentity) {
+    const trader = this.activeTrader(id);
+    const result = traderSettingsSchema.safeParse(body);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new MockHttpError(400, `Invalid trader config: ${issue.path.join('.')} ${issue.message}`);
+    }
+    this.checkSchedule(result.data);
+    this.checkSymbols(result.data);
+    this.checkStrategy(result.data);
+    this.checkRules(result.data);
+    // Open trades keep the leverage they were opened with; only new entries use the new settings
+    // Seed history with the pre-edit config before it is replaced
+    this.revisions(trader);
+    trader.config = { ...result.data, name: trader.config.name };
+    this.recordRevision(trader, identity);
+    result.data.symbols.forEach(symbol => this.feed(symbol));
+    return { success: true };
+  }
+
+  private checkSchedule(settings: { schedule?: TraderConfig['schedule'] }) {
+    if (!settings.schedule) return;
+    const problem = Object.values(validateSchedule(settings.schedule))[0];
+    if (problem) {
+      throw new MockHttpError(400, `Invalid trader config: schedule ${problem}`);
+    }
+  }
+
+  // Same catalog rules the dashboard applies, for clients that skip them
+  private checkSymbols(settings: Pick<TraderConfig, 'symbols' | 'leverage' | 'symbol_overrides'>) {
+    const problem = Object.values(validateSymbolSettings(settings, SYMBOL_CATALOG))[0];
+    if (problem) {
+      throw new MockHttpError(400, `Invalid trader config: ${problem}`);
+    }
+  }
+
+  private checkStrategy(settings: TraderSettings) {
+    const id = traderStrategyId(settings);
+    const definition = findStrategy(STRATEGIES, id);
+    if (!definition) {
+      throw new MockHttpError(400, `Invalid trader config: unknown strategy ${id}`);
+    }
+    const problem = Object.values(validateStrategySettings(settings, definition))[0];
+    if (problem) {
+      throw new MockHttpError(400, `Invalid trader config: ${problem}`);
+    }
+  }
+
+  private checkRules(settings: TraderSettings) {
+    const problem = Object.entries(validateRules(settings.rules))[0];
+    if (problem) {
+      throw new MockHttpError(400, `Invalid trader config: ${problem[0]} ${problem[1]}`);
+    }
+  }
+
+  private openManualTrade(id: string, body: unknown, identity: MockIdentity) {
+    const trader = this.activeTrader(id);
+    const order = (body ?? {}) as Partial<Record<'symbol' | 'side' | 'quantity' | 'leverage' | 'stop_loss' | 'take_profit', unknown>>;
+    const { symbol, side, quantity, leverage, stop_loss: stopLoss, take_profit: takeProfit } = order;
+    if (typeof symbol !== 'string' || !trader.config.symbols.includes(symbol)) {
+      throw new MockHttpError(400, `${String(symbol)} is not traded by ${trader.config.name}`);
+    }
+    if (side !== 'LONG' && side !== 'SHORT') {
+      throw new MockHttpError(400, 'side must be LONG or SHORT');
+    }
+    const maxLeverage = effectiveSettings(trader.config, symbol).leverage;
+    if (typeof leverage !== 'number' || !Number.isInteger(leverage) || leverage < 1 || leverage > maxLeverage) {
+      throw new MockHttpError(400, `leverage must be a whole number from 1 to ${maxLeverage}`);
+    }
+    if (typeof quantity !== 'number' || typeof stopLoss !== 'number' || typeof takeProfit !== 'number' || quantity <= 0) {
+      throw new MockHttpError(400, 'quantity, stop_loss and take_profit must be positive numbers');
+    }
+
+    const price = lastPrice(this.feed(symbol));
+    const direction = side === 'LONG' ? 1 : -1;
+    if (direction * (price - stopLoss) <= 0 || direction * (takeProfit - price) <= 0) {
+      throw new MockHttpError(400, `Stop loss and take profit must be on either side of the current price ${price.toFixed(2)}`);
+    }
+    if ((quantity * price) / leverage > trader.balance) {
+      throw new MockHttpError(400, 'Not enough balance to cover the margin');
+    }
+    const blocker = this.entryBlocker(trader);
+    if (blocker) {
+      throw new MockHttpError(409, blocker);
+    }
+
+    const now = new Date(this.state.clock).toISOString();
+    const trade: TradeEntry = {
+      trade_id: `${trader.id}-M${this.state.nextId++}`,
+      timestamp: now,
+      symbol,
+      side,
+      entry_price: price,
+      quantity,
+      leverage,
+      risk_pct: Math.abs(price - stopLoss) / price,
+      reward_pct: Math.abs(takeProfit - price) / price,
+      stop_loss: stopLoss,
+      take_profit: takeProfit,
+      current_roe: 0,
+      drawdown: 0,
+      max_roe: 0,
+      trade_status: 'OPEN',
+      notes: 'Manual entry',
+      source: 'MANUAL',
+    };
+    trader.trades.unshift(trade);
+    trader.last_trade_time = now;
+    this.recordAudit(
+      trader,
+      identity,
+      'open_trade',
+      `Opened ${symbol} ${side} ${quantity.toFixed(4)} at ${price.toFixed(2)} with ${leverage}x leverage`,
+      trade.trade_id
+    );
+    return { success: true, trade_id: trade.trade_id, entry_price: price };
+  }
+
+  private openTradeById(trader: MockTrader, tradeId: string) {
+    const trade = trader.trades.find(t => t.trade_id === tradeId);
+    if (!trade) {
+      throw new MockHttpError(404, `Trade ${tradeId} not found`);
+    }
+    if (trade.trade_status !== 'OPEN') {
+      throw new MockHttpError(409, `Trade ${tradeId} is already closed`);
+    }
+    return trade;
+  }
+
+  private recordAudit(trader: MockTrader, identity: MockIdentity, action: string, details: string, tradeId?: string) {
+    trader.audit = [
+      {
+        id: `${trader.id}-A${this.state.nextId++}`,
+        timestamp: new Date(this.state.clock).toISOString(),
+        actor: identity.username,
+        action,
+        trade_id: tradeId,
+        details,
+      },
+      ...(trader.audit ?? []),
+    ];
+  }
+
+  // A partial close splits the position: the closed part becomes its own settled trade
+  private closeTrade(id: string, tradeId: string, body: unknown, identity: MockIdentity) {
+    const trader = this.trader(id);
+    const trade = this.openTradeById(trader, tradeId);
+    const fraction = (body as { fraction?: unknown } | undefined)?.fraction ?? 1;
+    if (typeof fraction !== 'number' || fraction <= 0 || fraction > 1) {
+      throw new MockHttpError(400, 'fraction must be greater than 0 and at most 1');
+    }
+
+    const price = lastPrice(this.feed(trade.symbol));
+    const now = new Date(this.state.clock).toISOString();
+    const label = `${trade.symbol} ${trade.side}`;
+    if (fraction === 1) {
+      const pnl = tradePnl(trade, price);
+      this.settleTrade(trader, trade, price, now, 'Closed manually');
+      this.recordAudit(trader, identity, 'close_trade', `Closed ${label} at ${price.toFixed(2)} (P&L ${pnl.toFixed(2)})`, tradeId);
+      return { success: true, exit_price: price };
+    }
+
+    const closed: TradeEntry = {
+      ...trade,
+      trade_id: `${trade.trade_id}-P${this.state.nextId++}`,
+      quantity: trade.quantity * fraction,
+    };
+    trade.quantity -= closed.quantity;
+    trader.trades.splice(trader.trades.indexOf(trade) + 1, 0, closed);
+    const pnl = tradePnl(closed, price);
+    this.settleTrade(trader, closed, price, now, `Partial close of ${trade.trade_id}`);
+    this.recordAudit(
+      trader,
+      identity,
+      'partial_close',
+      `Closed ${(fraction * 100).toFixed(0)}% of ${label} at ${price.toFixed(2)} (P&L ${pnl.toFixed(2)})`,
+      tradeId
+    );
+    return { success: true, exit_price: price, closed_trade_id: closed.trade_id };
+  }
+
+  private updateTradeLevels(id: string, tradeId: string, body: unknown, identity: MockIdentity) {
+    const trader = this.trader(id);
+    const trade = this.openTradeById(trader, tradeId);
+    const { stop_loss: stopLoss, take_profit: takeProfit } = (body ?? {}) as { stop_loss?: unknown; take_profit?: unknown };
+    if (typeof stopLoss !== 'number' || typeof takeProfit !== 'number') {
+      throw new MockHttpError(400, 'stop_loss and take_profit must be numbers');
+    }
+    const price = lastPrice(this.feed(trade.symbol));
+    const direction = trade.side === 'LONG' ? 1 : -1;
+    if (direction * (price - stopLoss) <= 0 || direction * (takeProfit - price) <= 0) {
+      throw new MockHttpError(400, `Stop loss and take profit must be on either side of the current price ${price.toFixed(2)}`);
+    }
+
+    const details = `${trade.symbol} ${trade.side}: stop loss ${trade.stop_loss.toFixed(2)} -> ${stopLoss.toFixed(2)}, ` +
+      `take profit ${trade.take_profit.toFixed(2)} -> ${takeProfit.toFixed(2)}`;
+    trade.stop_loss = stopLoss;
+    trade.take_profit = takeProfit;
+    this.recordAudit(trader, identity, 'update_levels', details, tradeId);
+    return { success: true };
+  }
+
+  // Removing a trader that is still trading would orphan its positions
+  private checkIdle(trader: MockTrader) {
+    if (trader.is_running) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} is running; stop it first`);
+    }
+    const openCount = trader.trades.filter(t => t.trade_status === 'OPEN').length;
+    if (openCount > 0) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} has ${openCount} open trade${openCount === 1 ? '' : 's'}; close them first`);
+    }
+  }
+
+  private archiveTrader(id: string, identity: MockIdentity) {
+    const trader = this.activeTrader(id);
+    this.checkIdle(trader);
+    trader.archived_at = new Date(this.state.clock).toISOString();
+    this.recordAudit(trader, identity, 'archive', 'Archived the trader');
+    return { success: true };
+  }
+
+  private restoreTrader(id: string, identity: MockIdentity) {
+    const trader = this.trader(id);
+    if (!trader.archived_at) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} is not archived`);
+    }
+    trader.archived_at = undefined;
+    // Comes back stopped; a schedule only takes over again at its next change
+    const { schedule } = trader.config;
+    trader.schedule_active = schedule?.enabled ? isWithinSchedule(schedule, new Date(this.state.clock)) : undefined;
+    this.recordAudit(trader, identity, 'restore', 'Restored the trader from the archive');
+    return { success: true };
+  }
+
+  private deleteTrader(id: string) {
+    const trader = this.trader(id);
+    if (!trader.archived_at) {
+      throw new MockHttpError(409, `Trader ${trader.config.name} must be archived before it can be deleted`);
+    }
+    this.state.traders = this.state.traders.filter(t => t !== trader);
+    return { success: true };
+  }
+
+  private dailyPnl(trader: MockTrader) {
+    const dayStart = startOfDay(this.state.clock);
+    return trader.trades
+      .filter(t => t.trade_status !== 'OPEN' && t.exit_timestamp && new Date(t.exit_timestamp).getTime() >= dayStart)
+      .reduce((sum, t) => sum + tradePnl(t), 0);
+  }
+
+  private summary(trader: MockTrader): TraderSummary {
+    return {
+      id: trader.id,
+      name: trader.config.name,
+      is_running: trader.is_running,
+      balance: trader.balance,
+      daily_pnl: this.dailyPnl(trader),
+      total_trades: trader.trades.length,
+      open_trades: trader.trades.filter(t => t.trade_status === 'OPEN').length,
+      mode: trader.config.mode,
+      group: trader.config.group,
+      tags: trader.config.tags,
+      schedule: trader.config.schedule,
+      schedule_paused: trader.schedule_paused,
+      archived_at: trader.archived_at,
+    };
+  }
+
+  private status(trader: MockTrader): TraderStatus {
+    const { name, ...config } = trader.config;
+    return {
+      ...this.summary(trader),
+      config,
+      last_trade_time: trader.last_trade_time,
+    };
+  }
+
+  private marketData(symbol: string) {
+    const feed = this.feed(symbol);
+    const price = lastPrice(feed);
+    const first = feed.prices[0];
+    return {
+      symbol,
+      price,
+      change_pct: ((price - first) / first) * 100,
+      volume: feed.volumes[feed.volumes.length - 1],
+      timestamp: new Date(this.state.clock).toISOString(),
+    };
+  }
+
+  private performance(trader: MockTrader): PerformanceMetrics {
+    const closed = trader.trades
+      .filter(t => t.trade_status !== 'OPEN')
+      .sort((a, b) => (a.exit_timestamp ?? '').localeCompare(b.exit_timestamp ?? ''));
+    const pnls = closed.map(t => tradePnl(t));
+    const wins = pnls.filter(p => p > 0);
+    const losses = pnls.filter(p => p <= 0);
+    const grossWin = wins.reduce((sum, p) => sum + p, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, p) => sum + p, 0));
+
+    let equity = trader.config.initial_balance;
+    let peak = equity;
+    let maxDrawdown = 0;
+    pnls.forEach(p => {
+      equity += p;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    });
+
+    const returns = closed.map(t => (t.actual_return_pct ?? 0) / 100);
+    const meanReturn = returns.length ? returns.reduce((sum, r) => sum + r, 0) / returns.length : 0;
+    const variance = returns.length > 1
+      ? returns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) / (returns.length - 1)
+      : 0;
+    const totalPnl = trader.balance - trader.config.initial_balance;
+
+    return {
+      total_trades: closed.length,
+      winning_trades: wins.length,
+      losing_trades: losses.length,
+      win_rate: closed.length ? wins.length / closed.length : 0,
+      avg_win: wins.length ? grossWin / wins.length : 0,
+      avg_loss: losses.length ? grossLoss / losses.length : 0,
+      profit_factor: grossLoss > 0 ? grossWin / grossLoss : 0,
+      max_drawdown: maxDrawdown,
+      current_balance: trader.balance,
+      total_pnl: totalPnl,
+      total_pnl_pct: (totalPnl / trader.config.initial_balance) * 100,
+      sharpe_ratio: variance > 0 ? (meanReturn / Math.sqrt(variance)) * Math.sqrt(returns.length) : 0,
+    };
+  }
+
+  // Simulation
+
+  private advance(now: number) {
+    const steps = Math.floor((now - this.state.clock) / STEP_MS);
+    if (steps <= 0) return;
+
+    const skipped = Math.max(0, steps - MAX_CATCHUP_STEPS);
+    this.state.clock += skipped * STEP_MS;
+
+    for (let i = 0; i < steps - skipped; i++) {
+      this.state.clock += STEP_MS;
+      Object.values(this.state.feeds).forEach(tickFeed);
+      this.state.traders.forEach(t => this.applySchedule(t));
+      this.state.traders.filter(t => t.is_running).forEach(t => this.stepTrader(t));
+    }
+  }
+
+  // Starts or stops at session edges only, so a manual start holds until the next one. A manual stop
+  // holds until the trader is started again, so an emergency stop can't be undone by the next session.
+  private applySchedule(trader: MockTrader) {
+    const { schedule } = trader.config;
+    if (!schedule?.enabled || trader.archived_at) {
+      trader.schedule_active = undefined;
+      return;
+    }
+    const active = isWithinSchedule(schedule, new Date(this.state.clock));
+    if (active !== trader.schedule_active) {
+      trader.is_running = active && !trader.schedule_paused;
+      trader.schedule_active = active;
+    }
+  }
+
+  private stepTrader(trader: MockTrader) {
+    const now = new Date(this.state.clock).toISOString();
+
+    trader.trades
+      .filter(t => t.trade_status === 'OPEN')
+      .forEach(trade => this.updateOpenTrade(trader, trade, now));
+
+    const { config } = trader;
+    if (this.entryBlocker(trader)) return;
+
+    for (const symbol of config.symbols) {
+      if (trader.trades.some(t => t.trade_status === 'OPEN' && t.symbol === symbol)) continue;
+      const indicators = computeIndicators(symbol, this.feed(symbol), effectiveSettings(config, symbol));
+      if (indicators.signal === 'HOLD') continue;
+      this.openTrade(trader, symbol, indicators.signal === 'BUY' ? 'LONG' : 'SHORT', indicators.price, now);
+      return;
+    }
+  }
+
+  // Why the trader may not open another position right now, or null when it may
+  private entryBlocker(trader: MockTrader) {
+    const { config } = trader;
+    const openCount = trader.trades.filter(t => t.trade_status === 'OPEN').length;
+    if (openCount >= config.max_open_trades) {
+      return `${openCount} of ${config.max_open_trades} allowed trades are already open`;
+    }
+
+    const lastOpened = trader.trades[0] ? new Date(trader.trades[0].timestamp).getTime() : 0;
+    if (this.state.clock - lastOpened < config.cooldown_minutes * 60000) {
+      return `The ${config.cooldown_minutes} minute cooldown since the last entry has not passed`;
+    }
+
+    const dailyPnl = this.dailyPnl(trader);
+    if (dailyPnl < 0 && -dailyPnl >= (trader.balance - dailyPnl) * config.daily_loss_limit) {
+      return 'The daily loss limit has been reached';
+    }
+    return null;
+  }
+
+  private openTrade(trader: MockTrader, symbol: string, side: 'LONG' | 'SHORT', price: number, now: string) {
+    const config = effectiveSettings(trader.config, symbol);
+    const direction = side === 'LONG' ? 1 : -1;
+    const riskAmount = trader.balance * config.risk_per_trade;
+    // Size so that hitting the stop loses risk_per_trade, capped by available margin
+    const quantity = Math.min(riskAmount / (price * STOP_DISTANCE), (trader.balance * config.leverage) / price);
+
+    trader.trades.unshift({
+      trade_id: `${trader.id}-T${this.state.nextId++}`,
+      timestamp: now,
+      symbol,
+      side,
+      entry_price: price,
+      quantity,
+      leverage: config.leverage,
+      risk_pct: STOP_DISTANCE,
+      reward_pct: STOP_DISTANCE * REWARD_RISK_RATIO,
+      stop_loss: price * (1 - direction * STOP_DISTANCE),
+      take_profit: price * (1 + direction * STOP_DISTANCE * REWARD_RISK_RATIO),
+      current_roe: 0,
+      drawdown: 0,
+      max_roe: 0,
+      trade_status: 'OPEN',
+      notes: 'Simulated entry',
+      source: 'BOT',
+    });
+    trader.last_trade_time = now;
+  }
+
+  private updateOpenTrade(trader: MockTrader, trade: TradeEntry, now: string) {
+    const price = lastPrice(this.feed(trade.symbol));
+    const direction = trade.side === 'LONG' ? 1 : -1;
+    const roe = ((price - trade.entry_price) / trade.entry_price) * direction * trade.leverage;
+
+    trade.current_roe = roe;
+    trade.max_roe = Math.max(trade.max_roe, roe);
+    trade.drawdown = Math.max(trade.drawdown, trade.max_roe - roe);
+
+    const hitStop = direction * (price - trade.stop_loss) <= 0;
+    const hitTarget = direction * (price - trade.take_profit) >= 0;
+    if (hitStop || hitTarget) {
+      this.settleTrade(trader, trade, price, now, hitTarget ? 'Take profit hit' : 'Stop loss hit');
+      return;
+    }
+
+    const exitRule = trade.side === 'LONG' ? trader.config.rules?.long_exit : trader.config.rules?.short_exit;
+    if (!exitRule) return;
+    const settings = effectiveSettings(trader.config, trade.symbol);
+    if (evaluateRule(exitRule, computeIndicators(trade.symbol, this.feed(trade.symbol), settings), settings)) {
+      this.settleTrade(trader, trade, price, now, 'Exit rule met');
+    }
+  }
+
+  private settleTrade(trader: MockTrader, trade: TradeEntry, price: number, now: string, note: string) {
+    const pnl = tradePnl(trade, price);
+    trade.trade_status = pnl > 0 ? 'CLOSED_WIN' : 'CLOSED_LOSS';
+    trade.exit_price = price;
+    trade.exit_timestamp = now;
+    trade.actual_return_pct = (pnl / trader.balance) * 100;
+    trade.notes = note;
+    trader.balance += pnl;
+    trader.last_trade_time = now;
+  }
+}
@@ -0,0 +1,13 @@
+import { MockTradingBackend } from './backend';
+
+let backend: MockTradingBackend | null = null;
+
+// One simulated backend per browser tab; its state persists in local storage
+export function getMockBackend() {
+  if (!backend) {
+    backend = new MockTradingBackend();
+  }
+  return backend;
+}
+
+export { MockTradingBackend };
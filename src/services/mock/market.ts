@@ -0,0 +1,234 @@
+// Simulated price feed and indicator maths for the mock backend
+import { type IndicatorData, type StrategyDefinition, type SymbolInfo, type TraderConfig } from '../schemas';
+import { evaluateRule } from '../../lib/rules';
+import { CLASSIC_STRATEGY } from '../../lib/strategies';
+
+export interface SymbolFeed {
+  prices: number[];
+  volumes: number[];
+}
+
+const HISTORY_LENGTH = 200;
+const TICK_VOLATILITY = 0.001;
+
+const BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 65000,
+  ETHUSDT: 3200,
+  BNBUSDT: 580,
+  SOLUSDT: 150,
+  XRPUSDT: 0.55,
+  ADAUSDT: 0.45,
+  DOTUSDT: 6.5,
+  LINKUSDT: 14,
+};
+
+// Unknown symbols still get a stable, plausible starting price
+function basePrice(symbol: string) {
+  if (BASE_PRICES[symbol]) return BASE_PRICES[symbol];
+  const hash = [...symbol].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 100000, 7);
+  return 1 + (hash % 500);
+}
+
+// Exchange limits per listed pair; the delisted and halted entries exercise the dashboard's validation
+const LISTINGS: Array<[symbol: string, maxLeverage: number, status: string]> = [
+  ['BTCUSDT', 125, 'TRADING'],
+  ['ETHUSDT', 100, 'TRADING'],
+  ['BNBUSDT', 75, 'TRADING'],
+  ['SOLUSDT', 50, 'TRADING'],
+  ['XRPUSDT', 50, 'TRADING'],
+  ['ADAUSDT', 50, 'TRADING'],
+  ['DOTUSDT', 20, 'TRADING'],
+  ['LINKUSDT', 20, 'TRADING'],
+  ['MATICUSDT', 25, 'HALTED'],
+  ['LUNAUSDT', 20, 'DELISTED'],
+  ['FTTUSDT', 10, 'DELISTED'],
+];
+
+export const SYMBOL_CATALOG: SymbolInfo[] = LISTINGS.map(([symbol, maxLeverage, status]) => {
+  const price = basePrice(symbol);
+  // Roughly five significant digits of price precision, and about $5 as the smallest order
+  const tickSize = 10 ** (Math.floor(Math.log10(price)) - 4);
+  const minQuantity = 10 ** Math.ceil(Math.log10(5 / price));
+  return {
+    symbol,
+    base_asset: symbol.replace(/USDT$/, ''),
+    quote_asset: 'USDT',
+    tick_size: Number(tickSize.toPrecision(1)),
+    min_quantity: Number(minQuantity.toPrecision(1)),
+    max_leverage: maxLeverage,
+    status,
+  };
+});
+
+// The classic strategy plus two that keep their parameters in strategy_params
+export const STRATEGIES: StrategyDefinition[] = [
+  CLASSIC_STRATEGY,
+  {
+    id: 'macd',
+    name: 'MACD crossover',
+    description: 'Enters when the MACD line crosses its signal line',
+    parameters: [
+      { key: 'fast_period', label: 'Fast EMA', type: 'integer', min: 2, max: 50, default: 12, group: 'MACD' },
+      { key: 'slow_period', label: 'Slow EMA', type: 'integer', min: 5, max: 100, default: 26, group: 'MACD' },
+      { key: 'signal_period', label: 'Signal EMA', type: 'integer', min: 2, max: 50, default: 9, group: 'MACD' },
+      { key: 'require_volume', label: 'Require volume', type: 'boolean', default: true, group: 'Filters', help: 'Only enter on above-threshold volume' },
+    ],
+  },
+  {
+    id: 'breakout',
+    name: 'Range breakout',
+    description: 'Enters when price closes beyond the recent high or low',
+    parameters: [
+      { key: 'lookback_period', label: 'Lookback', type: 'integer', min: 5, max: 150, default: 20, group: 'Range', help: 'Candles the high and low are taken over' },
+      { key: 'breakout_buffer', label: 'Breakout buffer', type: 'percent', min: 0, max: 0.05, step: 0.001, default: 0.002, group: 'Range', help: 'How far past the range price must close' },
+      { key: 'require_volume', label: 'Require volume', type: 'boolean', default: true, group: 'Filters', help: 'Only enter on above-threshold volume' },
+    ],
+  },
+];
+
+function randomVolume() {
+  return 500000 + Math.random() * 2500000;
+}
+
+export function createFeed(symbol: string): SymbolFeed {
+  const prices = [basePrice(symbol)];
+  const volumes = [randomVolume()];
+  // Seed enough history for the slowest indicator before anyone asks for it
+  for (let i = 1; i < HISTORY_LENGTH; i++) {
+    prices.push(nextPrice(prices[i - 1]));
+    volumes.push(randomVolume());
+  }
+  return { prices, volumes };
+}
+
+function nextPrice(price: number) {
+  // Box-Muller normal shock for a geometric random walk
+  const shock = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+  return price * Math.exp(shock * TICK_VOLATILITY);
+}
+
+export function tickFeed(feed: SymbolFeed) {
+  feed.prices.push(nextPrice(feed.prices[feed.prices.length - 1]));
+  feed.volumes.push(randomVolume());
+  if (feed.prices.length > HISTORY_LENGTH) feed.prices.shift();
+  if (feed.volumes.length > HISTORY_LENGTH) feed.volumes.shift();
+}
+
+export function lastPrice(feed: SymbolFeed) {
+  return feed.prices[feed.prices.length - 1];
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sma(values: number[], period: number) {
+  return mean(values.slice(-Math.max(1, period)));
+}
+
+function rsi(prices: number[], period: number) {
+  const window = prices.slice(-(period + 1));
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i < window.length; i++) {
+    const change = window[i] - window[i - 1];
+    if (change >= 0) gains += change;
+    else losses -= change;
+  }
+  if (losses === 0) return 100;
+  const rs = gains / losses;
+  return 100 - 100 / (1 + rs);
+}
+
+function ema(values: number[], period: number) {
+  const k = 2 / (period + 1);
+  const result = [values[0]];
+  for (let i = 1; i < values.length; i++) result.push(values[i] * k + result[i - 1] * (1 - k));
+  return result;
+}
+
+type IndicatorSettings = Pick<
+  TraderConfig,
+  | 'rsi_period' | 'rsi_overbought' | 'rsi_oversold' | 'bollinger_period' | 'bollinger_std' | 'ma_short' | 'ma_long'
+  | 'volume_threshold' | 'strategy' | 'strategy_params' | 'rules'
+>;
+
+type Signal = IndicatorData['signal'];
+
+// MACD line crossing its signal line between the last two candles
+function macdSignal(prices: number[], params: Record<string, number | boolean>): Signal {
+  const fast = ema(prices, Number(params.fast_period ?? 12));
+  const slow = ema(prices, Number(params.slow_period ?? 26));
+  const macd = fast.map((value, i) => value - slow[i]);
+  const signal = ema(macd, Number(params.signal_period ?? 9));
+  const last = macd.length - 1;
+  const before = macd[last - 1] - signal[last - 1];
+  const now = macd[last] - signal[last];
+  return before <= 0 && now > 0 ? 'BUY' : before >= 0 && now < 0 ? 'SELL' : 'HOLD';
+}
+
+// Close beyond the high or low of the lookback window, excluding the latest candle
+function breakoutSignal(prices: number[], params: Record<string, number | boolean>): Signal {
+  const range = prices.slice(-(Number(params.lookback_period ?? 20) + 1), -1);
+  const buffer = Number(params.breakout_buffer ?? 0.002);
+  const price = prices[prices.length - 1];
+  if (price > Math.max(...range) * (1 + buffer)) return 'BUY';
+  if (price < Math.min(...range) * (1 - buffer)) return 'SELL';
+  return 'HOLD';
+}
+
+// Entry rules replace the strategy's signal on their side; a side without one keeps it
+function withEntryRules(indicators: IndicatorData, settings: IndicatorSettings): IndicatorData {
+  const { rules } = settings;
+  if (!rules?.long_entry && !rules?.short_entry) return indicators;
+  const long = rules.long_entry ? evaluateRule(rules.long_entry, indicators, settings) : indicators.signal === 'BUY';
+  const short = rules.short_entry ? evaluateRule(rules.short_entry, indicators, settings) : indicators.signal === 'SELL';
+  const signal: Signal = long && !short ? 'BUY' : short && !long ? 'SELL' : 'HOLD';
+  if (signal === indicators.signal) return indicators;
+  return { ...indicators, signal, signal_strength: signal === 'HOLD' ? 0 : 10 };
+}
+
+export function computeIndicators(symbol: string, feed: SymbolFeed, settings: IndicatorSettings): IndicatorData {
+  const price = lastPrice(feed);
+  const bandWindow = feed.prices.slice(-settings.bollinger_period);
+  const middle = mean(bandWindow);
+  const deviation = Math.sqrt(mean(bandWindow.map(p => (p - middle) ** 2)));
+  const upper = middle + settings.bollinger_std * deviation;
+  const lower = middle - settings.bollinger_std * deviation;
+  const maShort = sma(feed.prices, settings.ma_short);
+  const maLong = sma(feed.prices, settings.ma_long);
+  const volume = feed.volumes[feed.volumes.length - 1];
+  const volumeAvg = sma(feed.volumes, 20);
+  const currentRsi = rsi(feed.prices, settings.rsi_period);
+
+  // Each agreeing indicator adds a point; two or more points make a signal
+  const highVolume = volume >= settings.volume_threshold;
+  const longScore = Number(currentRsi <= settings.rsi_oversold) + Number(price <= lower) + Number(maShort > maLong && price > maShort);
+  const shortScore = Number(currentRsi >= settings.rsi_overbought) + Number(price >= upper) + Number(maShort < maLong && price < maShort);
+  const classicSignal = longScore >= 2 && highVolume ? 'BUY' : shortScore >= 2 && highVolume ? 'SELL' : 'HOLD';
+
+  // The indicator readings stay the same; only the entry rule changes with the strategy
+  const params = settings.strategy_params ?? {};
+  const volumeOk = highVolume || params.require_volume === false;
+  let signal: Signal = classicSignal;
+  if (settings.strategy === 'macd') signal = volumeOk ? macdSignal(feed.prices, params) : 'HOLD';
+  else if (settings.strategy === 'breakout') signal = volumeOk ? breakoutSignal(feed.prices, params) : 'HOLD';
+
+  return withEntryRules({
+    symbol,
+    price,
+    rsi: currentRsi,
+    bollinger_upper: upper,
+    bollinger_lower: lower,
+    bollinger_middle: middle,
+    ma_short: maShort,
+    ma_long: maLong,
+    volume,
+    volume_avg: volumeAvg,
+    signal,
+    signal_strength: settings.strategy === 'macd' || settings.strategy === 'breakout'
+      ? (signal === 'HOLD' ? 0 : 10)
+      : (Math.max(longScore, shortScore) / 3) * 10,
+    last_updated: new Date().toISOString(),
+  }, settings);
+}
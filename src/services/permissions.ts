@@ -0,0 +1,18 @@
+// What each session role may do; every UI gate goes through this table
+import { type Role } from './schemas';
+
+export type Permission = 'trader:create' | 'trader:control' | 'trader:configure' | 'trader:delete';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  // Analysts see every view and can export, but cannot act on traders
+  viewer: [],
+  operator: ['trader:control', 'trader:configure'],
+  admin: ['trader:create', 'trader:control', 'trader:configure', 'trader:delete'],
+};
+
+// Backends that do not report a role get the least privileged one
+export const DEFAULT_ROLE: Role = 'viewer';
+
+export function hasPermission(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,126 @@
+// Trader config presets: built-in starting points plus presets saved in this browser
+import { z } from 'zod';
+import { traderSettingsSchema, type TraderSettings } from './schemas';
+
+export interface TraderPreset {
+  id: string;
+  name: string;
+  description?: string;
+  settings: TraderSettings;
+  builtIn?: boolean;
+}
+
+const PRESETS_STORAGE_KEY = 'trading-dashboard:trader-presets';
+const PRESET_EXPORT_VERSION = 1;
+
+const storedPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  settings: traderSettingsSchema,
+});
+
+const SHARED_INDICATORS = {
+  rsi_period: 14,
+  rsi_overbought: 70,
+  rsi_oversold: 30,
+  bollinger_period: 20,
+  bollinger_std: 2,
+  ma_short: 10,
+  ma_long: 20,
+};
+
+export const BALANCED_PRESET: TraderPreset = {
+  id: 'builtin-balanced',
+  name: 'Balanced',
+  description: '2% risk per trade at 10x leverage',
+  builtIn: true,
+  settings: {
+    initial_balance: 10000,
+    risk_per_trade: 0.02,
+    leverage: 10,
+    cooldown_minutes: 5,
+    daily_loss_limit: 0.05,
+    max_open_trades: 3,
+    symbols: ['BTCUSDT', 'ETHUSDT'],
+    volume_threshold: 1000000,
+    ...SHARED_INDICATORS,
+  },
+};
+
+export const BUILT_IN_PRESETS: TraderPreset[] = [
+  {
+    id: 'builtin-conservative',
+    name: 'Conservative',
+    description: '0.5% risk per trade at 3x leverage, one position at a time',
+    builtIn: true,
+    settings: {
+      initial_balance: 10000,
+      risk_per_trade: 0.005,
+      leverage: 3,
+      cooldown_minutes: 30,
+      daily_loss_limit: 0.02,
+      max_open_trades: 1,
+      symbols: ['BTCUSDT'],
+      volume_threshold: 2000000,
+      ...SHARED_INDICATORS,
+      rsi_overbought: 75,
+      rsi_oversold: 25,
+      bollinger_std: 2.5,
+    },
+  },
+  BALANCED_PRESET,
+  {
+    id: 'builtin-aggressive',
+    name: 'Aggressive',
+    description: '5% risk per trade at 25x leverage across more symbols',
+    builtIn: true,
+    settings: {
+      initial_balance: 10000,
+      risk_per_trade: 0.05,
+      leverage: 25,
+      cooldown_minutes: 1,
+      daily_loss_limit: 0.15,
+      max_open_trades: 6,
+      symbols: ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT'],
+      volume_threshold: 500000,
+      ...SHARED_INDICATORS,
+      rsi_overbought: 65,
+      rsi_oversold: 35,
+      bollinger_std: 1.5,
+      ma_short: 5,
+      ma_long: 15,
+    },
+  },
+];
+
+function loadUserPresets(): TraderPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+    const result = z.array(storedPresetSchema).safeParse(stored);
+    return result.success ? (result.data as TraderPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadPresets(): TraderPreset[] {
+  return [...BUILT_IN_PRESETS, ...loadUserPresets()];
+}
+
+// Only user presets are persisted; built-in presets always come from code
+export function saveUserPresets(presets: TraderPreset[]) {
+  const userPresets = presets
+    .filter(p => !p.builtIn)
+    .map(({ id, name, description, settings }) => ({ id, name, description, settings }));
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(userPresets));
+}
+
+export function createPresetId() {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function serializePresets(presets: TraderPreset[]) {
+  const exported = presets.map(({ name, description, settings }) => ({ name, description, settings }));
+  return JSON.stringify({ version: PRESET_EXPORT_VERSION, presets: exported }, null, 2);
+}
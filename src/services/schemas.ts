@@ -0,0 +1,311 @@
+// Runtime contracts for every trading backend response
+import { z } from 'zod';
+
+// Python backends emit null for missing values; treat it the same as an absent field
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+export const tradeEntrySchema = z.object({
+  trade_id: z.string(),
+  timestamp: z.string(),
+  symbol: z.string(),
+  side: z.enum(['LONG', 'SHORT']),
+  entry_price: z.number(),
+  quantity: z.number(),
+  leverage: z.number(),
+  risk_pct: z.number(),
+  reward_pct: z.number(),
+  stop_loss: z.number(),
+  take_profit: z.number(),
+  current_roe: z.number(),
+  drawdown: z.number(),
+  max_roe: z.number(),
+  trade_status: z.enum(['OPEN', 'CLOSED_WIN', 'CLOSED_LOSS']),
+  exit_price: optional(z.number()),
+  exit_timestamp: optional(z.string()),
+  actual_return_pct: optional(z.number()),
+  notes: z.string(),
+  // Who opened the position; backends that predate manual orders only have bot trades
+  source: optional(z.enum(['BOT', 'MANUAL'])),
+});
+
+// When the backend runs a trader by itself: weekly windows in one time zone, minus blackout dates.
+// Days count from 0 = Sunday; times are "HH:MM" local to the time zone and "24:00" ends a day.
+export const tradingScheduleSchema = z.object({
+  enabled: z.boolean(),
+  timezone: z.string(),
+  windows: z.array(z.object({
+    day: z.number().int().min(0).max(6),
+    start: z.string(),
+    end: z.string(),
+  })),
+  blackout_dates: z.array(z.string()),
+});
+
+// Paper traders simulate fills; live traders place real orders with real funds
+export const tradingModeSchema = z.enum(['paper', 'live']);
+
+// One tunable input of a strategy, as described by the backend. Percent values are fractions shown as percentages.
+export const strategyParameterSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  type: z.enum(['integer', 'number', 'percent', 'boolean']),
+  min: optional(z.number()),
+  max: optional(z.number()),
+  step: optional(z.number()),
+  default: z.union([z.number(), z.boolean()]),
+  group: optional(z.string()),
+  help: optional(z.string()),
+});
+
+// A trading strategy the backend can run, served by /strategies so forms can be built from it
+export const strategyDefinitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  parameters: z.array(strategyParameterSchema),
+});
+
+// One side of a rule condition: a live indicator reading, one of the trader's own settings, or a fixed number.
+// Field and setting names are free text so new indicators don't break older dashboards.
+export const ruleOperandSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('indicator'), field: z.string() }),
+  z.object({ type: z.literal('setting'), key: z.string() }),
+  z.object({ type: z.literal('value'), value: z.number() }),
+]);
+
+export const ruleConditionSchema = z.object({
+  type: z.literal('condition'),
+  left: ruleOperandSchema,
+  operator: z.enum(['<', '<=', '>', '>=']),
+  right: ruleOperandSchema,
+});
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+
+// Conditions and nested groups joined by AND or OR. Written out because the schema refers to itself;
+// the keys are optional to match what zod infers for the other schemas in this non-strict build.
+export interface RuleGroup {
+  type?: 'group';
+  combinator?: 'and' | 'or';
+  conditions?: Array<RuleCondition | RuleGroup>;
+}
+
+export const ruleGroupSchema: z.ZodType<RuleGroup> = z.lazy(() => z.object({
+  type: z.literal('group'),
+  combinator: z.enum(['and', 'or']),
+  conditions: z.array(z.union([ruleConditionSchema, ruleGroupSchema])),
+}));
+
+// Entry rules replace the strategy's signal on their side; exit rules close positions on top of stop loss and take profit
+export const tradingRulesSchema = z.object({
+  long_entry: optional(ruleGroupSchema),
+  long_exit: optional(ruleGroupSchema),
+  short_entry: optional(ruleGroupSchema),
+  short_exit: optional(ruleGroupSchema),
+});
+
+// Per-symbol replacements for trader-wide settings; anything left out is inherited from the trader
+export const symbolOverridesSchema = z.object({
+  risk_per_trade: optional(z.number()),
+  leverage: optional(z.number()),
+  rsi_period: optional(z.number()),
+  rsi_overbought: optional(z.number()),
+  rsi_oversold: optional(z.number()),
+  bollinger_period: optional(z.number()),
+  bollinger_std: optional(z.number()),
+  ma_short: optional(z.number()),
+  ma_long: optional(z.number()),
+});
+
+export const traderConfigSchema = z.object({
+  name: z.string(),
+  mode: optional(tradingModeSchema),
+  initial_balance: z.number(),
+  risk_per_trade: z.number(),
+  leverage: z.number(),
+  cooldown_minutes: z.number(),
+  daily_loss_limit: z.number(),
+  max_open_trades: z.number(),
+  symbols: z.array(z.string()),
+  rsi_period: z.number(),
+  rsi_overbought: z.number(),
+  rsi_oversold: z.number(),
+  bollinger_period: z.number(),
+  bollinger_std: z.number(),
+  ma_short: z.number(),
+  ma_long: z.number(),
+  volume_threshold: z.number(),
+  schedule: optional(tradingScheduleSchema),
+  // Strategy id and the values of its parameters that don't have a top-level field; no strategy means
+  // the original RSI + Bollinger + MA strategy
+  strategy: optional(z.string()),
+  strategy_params: optional(z.record(z.union([z.number(), z.boolean()]))),
+  rules: optional(tradingRulesSchema),
+  // Keyed by symbol
+  symbol_overrides: optional(z.record(symbolOverridesSchema)),
+  // Organization only; neither changes how the trader trades
+  group: optional(z.string()),
+  tags: optional(z.array(z.string())),
+});
+
+// Everything about a trader except its name, as reported by /status and sent to /config
+export const traderSettingsSchema = traderConfigSchema.omit({ name: true });
+
+// One saved version of a trader's settings; the highest revision is the one running
+export const configRevisionSchema = z.object({
+  revision: z.number(),
+  config: traderSettingsSchema,
+  created_at: z.string(),
+  author: z.string(),
+  note: optional(z.string()),
+});
+
+export const performanceMetricsSchema = z.object({
+  total_trades: z.number(),
+  winning_trades: z.number(),
+  losing_trades: z.number(),
+  win_rate: z.number(),
+  avg_win: z.number(),
+  avg_loss: z.number(),
+  profit_factor: z.number(),
+  max_drawdown: z.number(),
+  current_balance: z.number(),
+  total_pnl: z.number(),
+  total_pnl_pct: z.number(),
+  sharpe_ratio: z.number(),
+});
+
+export const traderSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  is_running: z.boolean(),
+  balance: z.number(),
+  daily_pnl: z.number(),
+  total_trades: z.number(),
+  open_trades: z.number(),
+  mode: optional(tradingModeSchema),
+  group: optional(z.string()),
+  tags: optional(z.array(z.string())),
+  // Set once the trader is archived; archived traders keep their history but cannot trade
+  archived_at: optional(z.string()),
+  // Lets the trader list show the next scheduled start or stop without loading every config
+  schedule: optional(tradingScheduleSchema),
+  // Stopped by hand or by the kill switch; the schedule won't start it again until it is started
+  schedule_paused: optional(z.boolean()),
+});
+
+export const traderStatusSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  is_running: z.boolean(),
+  config: traderSettingsSchema,
+  balance: z.number(),
+  open_trades: z.number(),
+  daily_pnl: z.number(),
+  total_trades: z.number(),
+  last_trade_time: optional(z.string()),
+  archived_at: optional(z.string()),
+  schedule_paused: optional(z.boolean()),
+});
+
+export const indicatorDataSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  rsi: z.number(),
+  bollinger_upper: z.number(),
+  bollinger_lower: z.number(),
+  bollinger_middle: z.number(),
+  ma_short: z.number(),
+  ma_long: z.number(),
+  volume: z.number(),
+  volume_avg: z.number(),
+  signal: z.enum(['BUY', 'SELL', 'HOLD']),
+  signal_strength: z.number(),
+  last_updated: z.string(),
+});
+
+// Manual interventions on a trader, newest first; action is free text so new kinds don't break older dashboards
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  actor: z.string(),
+  action: z.string(),
+  trade_id: optional(z.string()),
+  details: z.string(),
+});
+
+// Mutations only need to succeed; whatever acknowledgement the backend sends is passed through
+export const acknowledgementSchema = z.unknown();
+
+export const exportRowsSchema = z.array(z.record(z.unknown()));
+
+export const marketDataSchema = z.record(z.unknown());
+
+// One tradable pair as listed by the exchange; status is free text ('TRADING', 'HALTED', 'DELISTED', ...)
+// so new exchange states don't break older dashboards
+export const symbolInfoSchema = z.object({
+  symbol: z.string(),
+  base_asset: z.string(),
+  quote_asset: z.string(),
+  tick_size: z.number(),
+  min_quantity: z.number(),
+  max_leverage: z.number(),
+  status: z.string(),
+});
+
+export const roleSchema = z.enum(['viewer', 'operator', 'admin']);
+
+// Returned by /auth/login and /auth/refresh; expires_in is in seconds
+export const authTokenSchema = z.object({
+  access_token: z.string().min(1),
+  refresh_token: optional(z.string()),
+  expires_in: optional(z.number()),
+  role: optional(roleSchema),
+});
+
+// Returned by /auth/me for whoever the request's credentials belong to
+export const sessionIdentitySchema = z.object({
+  username: optional(z.string()),
+  role: optional(roleSchema),
+});
+
+const tradeStreamEventSchema = z.object({
+  type: z.enum(['trade_opened', 'trade_updated', 'trade_closed']),
+  trader_id: z.string(),
+  trade: tradeEntrySchema,
+});
+
+export const tradingStreamEventSchema = z.discriminatedUnion('type', [
+  tradeStreamEventSchema,
+  z.object({ type: z.literal('trader_status'), trader_id: z.string(), status: traderSummarySchema.partial() }),
+  z.object({
+    type: z.literal('indicators'),
+    trader_id: z.string(),
+    symbol: z.string(),
+    indicators: indicatorDataSchema,
+  }),
+]);
+
+export type TradeEntry = z.infer<typeof tradeEntrySchema>;
+export type TradingSchedule = z.infer<typeof tradingScheduleSchema>;
+export type TradingMode = z.infer<typeof tradingModeSchema>;
+export type SymbolOverride = z.infer<typeof symbolOverridesSchema>;
+export type RuleOperand = z.infer<typeof ruleOperandSchema>;
+export type TradingRules = z.infer<typeof tradingRulesSchema>;
+export type StrategyParameter = z.infer<typeof strategyParameterSchema>;
+export type StrategyDefinition = z.infer<typeof strategyDefinitionSchema>;
+export type TraderConfig = z.infer<typeof traderConfigSchema>;
+export type TraderSettings = z.infer<typeof traderSettingsSchema>;
+export type ConfigRevision = z.infer<typeof configRevisionSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type PerformanceMetrics = z.infer<typeof performanceMetricsSchema>;
+export type TraderSummary = z.infer<typeof traderSummarySchema>;
+export type TraderStatus = z.infer<typeof traderStatusSchema>;
+export type IndicatorData = z.infer<typeof indicatorDataSchema>;
+export type SymbolInfo = z.infer<typeof symbolInfoSchema>;
+export type Role = z.infer<typeof roleSchema>;
+export type AuthToken = z.infer<typeof authTokenSchema>;
+export type SessionIdentity = z.infer<typeof sessionIdentitySchema>;
+export type TradeStreamEvent = z.infer<typeof tradeStreamEventSchema>;
+export type TradingStreamEvent = z.infer<typeof tradingStreamEventSchema>;
@@ -0,0 +1,156 @@
+// Server-sent event channel pushing trader state from the backend
+import {
+  tradingStreamEventSchema,
+  type TradeEntry,
+  type TradeStreamEvent,
+  type TradingStreamEvent,
+} from './schemas';
+
+export type { TradingStreamEvent };
+
+export type TradingStreamEventType = TradingStreamEvent['type'];
+
+// 'open' means pushes are flowing; anything else means callers should poll
+export type TradingStreamState = 'connecting' | 'open' | 'unavailable';
+
+type EventListener = (event: TradingStreamEvent) => void;
+type StateListener = (state: TradingStreamState) => void;
+
+const EVENT_TYPES: TradingStreamEventType[] = [
+  'trade_opened',
+  'trade_updated',
+  'trade_closed',
+  'trader_status',
+  'indicators',
+];
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export class TradingStream {
+  private readonly url: string | null;
+  private source: EventSource | null = null;
+  private state: TradingStreamState = 'unavailable';
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = true;
+  private readonly eventListeners = new Set<EventListener>();
+  private readonly stateListeners = new Set<StateListener>();
+
+  constructor(url: string | null) {
+    this.url = url;
+  }
+
+  connect() {
+    if (!this.url || typeof EventSource === 'undefined') {
+      this.setState('unavailable');
+      return;
+    }
+    this.closed = false;
+    this.open();
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.setState('unavailable');
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: EventListener) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  onStateChange(listener: StateListener) {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private open() {
+    this.setState('connecting');
+    const source = new EventSource(this.url);
+    this.source = source;
+
+    source.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setState('open');
+    };
+
+    // EventSource retries on its own, but with a fixed short delay and no
+    // visibility into the outage, so we take over and back off instead
+    source.onerror = () => {
+      source.close();
+      if (this.source !== source) return;
+      this.source = null;
+      this.setState('unavailable');
+      this.scheduleReconnect();
+    };
+
+    EVENT_TYPES.forEach((type) => {
+      source.addEventListener(type, (message) => this.dispatch(type, message as MessageEvent));
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) this.open();
+    }, delay);
+  }
+
+  private dispatch(type: TradingStreamEventType, message: MessageEvent) {
+    let data: unknown;
+    try {
+      data = JSON.parse(message.data);
+    } catch (error) {
+      console.error(`Malformed ${type} stream event:`, error);
+      return;
+    }
+
+    // Same contract as the REST responses; a bad push must not corrupt cached state
+    const result = tradingStreamEventSchema.safeParse({ ...(data as object), type });
+    if (!result.success) {
+      console.error(`Stream event ${type} does not match the expected contract:`, result.error.issues);
+      return;
+    }
+    const event = result.data;
+    this.eventListeners.forEach(listener => listener(event));
+  }
+
+  private setState(state: TradingStreamState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+// Merge a pushed trade into a locally held trade list, newest first for new trades
+export function applyTradeEvent(trades: TradeEntry[], trade: TradeEntry) {
+  const index = trades.findIndex(t => t.trade_id === trade.trade_id);
+  if (index === -1) {
+    return [trade, ...trades];
+  }
+  const next = trades.slice();
+  next[index] = { ...trades[index], ...trade };
+  return next;
+}
+
+export function isTradeEvent(event: TradingStreamEvent): event is TradeStreamEvent {
+  return event.type === 'trade_opened' || event.type === 'trade_updated' || event.type === 'trade_closed';
+}